@@ -0,0 +1,281 @@
+import { z } from "zod";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { parseRootArgs, parseRootEnv } from "./sandbox.js";
+
+// Name of the per-project configuration file, looked up in the first workspace root
+export const PROJECT_CONFIG_FILE = 'codeseeker.config.json';
+
+export type OutputFormat = 'text' | 'json' | 'both';
+
+// Server settings after every configuration source has been applied
+export interface ServerConfig {
+  roots: string[];
+  // Argument defaults for every tool that has the argument, replacing the built-in ones
+  defaults: Record<string, unknown>;
+  // Argument defaults for single tools; they win over `defaults`
+  toolDefaults: Record<string, Record<string, unknown>>;
+  // Globs excluded from every tool, whatever the call's respectIgnore says
+  ignore: string[];
+  // Directory of the change journal; defaults to .codeseeker/journal in the first root
+  journalDir?: string;
+  timeouts: { ugrepMs: number; replaceMs: number };
+  // Content items returned by the search tools: readable text, the JSON model, or both
+  output: OutputFormat;
+  tools: { include?: string[]; exclude: string[] };
+  // Hide every tool that writes files
+  readOnly: boolean;
+  watch: boolean;
+  // Configuration files that were read, lowest precedence first
+  sources: string[];
+}
+
+const DEFAULT_CONFIG: ServerConfig = {
+  roots: [],
+  defaults: {},
+  toolDefaults: {},
+  ignore: [],
+  timeouts: { ugrepMs: 60_000, replaceMs: 5_000 },
+  output: 'both',
+  tools: { exclude: [] },
+  readOnly: false,
+  watch: false,
+  sources: [],
+};
+
+// What a configuration file may contain; environment variables and flags are mapped to the same shape
+const ConfigFileSchema = z.object({
+  roots: z.array(z.string().min(1)).optional(),
+  defaults: z.record(z.unknown()).optional(),
+  toolDefaults: z.record(z.record(z.unknown())).optional(),
+  ignore: z.array(z.string().min(1)).optional(),
+  backup: z.object({
+    enabled: z.boolean().optional(),
+    dir: z.string().min(1).optional(),
+  }).strict().optional(),
+  timeouts: z.object({
+    ugrepMs: z.number().int().min(1).optional(),
+    replaceMs: z.number().int().min(1).optional(),
+  }).strict().optional(),
+  output: z.enum(['text', 'json', 'both']).optional(),
+  tools: z.object({
+    include: z.array(z.string().min(1)).optional(),
+    exclude: z.array(z.string().min(1)).optional(),
+  }).strict().optional(),
+  readOnly: z.boolean().optional(),
+  watch: z.boolean().optional(),
+}).strict();
+
+type ConfigLayer = z.infer<typeof ConfigFileSchema>;
+
+let activeConfig: ServerConfig = DEFAULT_CONFIG;
+
+export function getConfig(): ServerConfig {
+  return activeConfig;
+}
+
+// Helper function to validate one configuration source; `source` names it in error messages
+function parseLayer(raw: unknown, source: string): ConfigLayer {
+  const parsed = ConfigFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid configuration in ${source}: ${issues}`);
+  }
+  return parsed.data;
+}
+
+// Helper function to read a configuration file; paths in it are relative to the file.
+// A missing file is skipped unless it was asked for explicitly.
+function readConfigFile(file: string, required: boolean): ConfigLayer | undefined {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf-8');
+  } catch (error) {
+    if (!required && (error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw new Error(`Cannot read configuration file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid JSON in configuration file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const layer = parseLayer(raw, file);
+  const base = path.dirname(file);
+  if (layer.roots) layer.roots = layer.roots.map(root => path.resolve(base, root));
+  if (layer.backup?.dir) layer.backup.dir = path.resolve(base, layer.backup.dir);
+  return layer;
+}
+
+// Helper function to locate the user-level configuration file
+function userConfigPath(env: NodeJS.ProcessEnv): string {
+  const base = process.platform === 'win32'
+    ? env.APPDATA ?? path.join(os.homedir(), 'AppData', 'Roaming')
+    : env.XDG_CONFIG_HOME ?? path.join(os.homedir(), '.config');
+  return path.join(base, 'codeseeker', 'config.json');
+}
+
+// Helper function to split a comma-separated list
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+// Helper function to read a boolean environment variable (1/true/yes or 0/false/no)
+function parseBooleanEnv(value: string | undefined, name: string): boolean | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (['1', 'true', 'yes'].includes(value.toLowerCase())) return true;
+  if (['0', 'false', 'no'].includes(value.toLowerCase())) return false;
+  throw new Error(`${name} must be 1/true/yes or 0/false/no, got ${JSON.stringify(value)}`);
+}
+
+// Helper function to map CODESEEKER_* environment variables onto a configuration layer
+function envLayer(env: NodeJS.ProcessEnv): ConfigLayer {
+  const number = (name: string) => env[name] ? Number(env[name]) : undefined;
+  const defaults: Record<string, unknown> = {};
+  if (env.CODESEEKER_MAX_RESULTS) defaults.maxResults = number('CODESEEKER_MAX_RESULTS');
+  if (env.CODESEEKER_MAX_FILES) defaults.maxFiles = number('CODESEEKER_MAX_FILES');
+  if (env.CODESEEKER_PAGE_SIZE) defaults.pageSize = number('CODESEEKER_PAGE_SIZE');
+
+  const roots = parseRootEnv(env.CODESEEKER_ROOTS).map(root => path.resolve(root));
+  return parseLayer({
+    roots: roots.length > 0 ? roots : undefined,
+    defaults,
+    ignore: env.CODESEEKER_IGNORE ? splitList(env.CODESEEKER_IGNORE) : undefined,
+    backup: {
+      enabled: parseBooleanEnv(env.CODESEEKER_BACKUP, 'CODESEEKER_BACKUP'),
+      dir: env.CODESEEKER_JOURNAL_DIR ? path.resolve(env.CODESEEKER_JOURNAL_DIR) : undefined,
+    },
+    timeouts: {
+      ugrepMs: number('CODESEEKER_UGREP_TIMEOUT_MS'),
+      replaceMs: number('CODESEEKER_REPLACE_TIMEOUT_MS'),
+    },
+    output: env.CODESEEKER_OUTPUT || undefined,
+    tools: {
+      include: env.CODESEEKER_TOOLS ? splitList(env.CODESEEKER_TOOLS) : undefined,
+      exclude: env.CODESEEKER_EXCLUDE_TOOLS ? splitList(env.CODESEEKER_EXCLUDE_TOOLS) : undefined,
+    },
+    readOnly: parseBooleanEnv(env.CODESEEKER_READ_ONLY, 'CODESEEKER_READ_ONLY'),
+    watch: parseBooleanEnv(env.CODESEEKER_WATCH, 'CODESEEKER_WATCH'),
+  }, 'environment variables');
+}
+
+// Command-line flags that take a value, and the flags that stand alone
+const VALUE_FLAGS = [
+  'config', 'max-results', 'max-files', 'page-size', 'ignore', 'backup-dir',
+  'ugrep-timeout', 'replace-timeout', 'output', 'tools', 'exclude-tools',
+];
+const SWITCH_FLAGS = ['no-backup', 'read-only', 'watch'];
+
+// Helper function to collect the configuration flags; other arguments (--root, --http, ...) are skipped
+function readFlags(argv: string[]): { values: Map<string, string[]>; switches: Set<string> } {
+  const values = new Map<string, string[]>();
+  const switches = new Set<string>();
+  for (let i = 0; i < argv.length; i++) {
+    const match = /^--([a-z-]+)(?:=(.*))?$/.exec(argv[i]);
+    if (!match) continue;
+    const [, name, inline] = match;
+    if (SWITCH_FLAGS.includes(name)) {
+      switches.add(name);
+    } else if (VALUE_FLAGS.includes(name)) {
+      const value = inline ?? argv[++i];
+      if (value === undefined) {
+        throw new Error(`--${name} needs a value`);
+      }
+      values.set(name, [...(values.get(name) ?? []), value]);
+    }
+  }
+  return { values, switches };
+}
+
+// Helper function to map command-line flags onto a configuration layer
+function flagLayer(argv: string[]): ConfigLayer {
+  const { values, switches } = readFlags(argv);
+  const last = (name: string) => values.get(name)?.at(-1);
+  const number = (name: string) => last(name) !== undefined ? Number(last(name)) : undefined;
+  const defaults: Record<string, unknown> = {};
+  if (values.has('max-results')) defaults.maxResults = number('max-results');
+  if (values.has('max-files')) defaults.maxFiles = number('max-files');
+  if (values.has('page-size')) defaults.pageSize = number('page-size');
+
+  const roots = parseRootArgs(argv).map(root => path.resolve(root));
+  return parseLayer({
+    roots: roots.length > 0 ? roots : undefined,
+    defaults,
+    ignore: values.get('ignore'),
+    backup: {
+      enabled: switches.has('no-backup') ? false : undefined,
+      dir: last('backup-dir') ? path.resolve(last('backup-dir')!) : undefined,
+    },
+    timeouts: { ugrepMs: number('ugrep-timeout'), replaceMs: number('replace-timeout') },
+    output: last('output'),
+    tools: {
+      include: last('tools') ? splitList(last('tools')!) : undefined,
+      exclude: last('exclude-tools') ? splitList(last('exclude-tools')!) : undefined,
+    },
+    readOnly: switches.has('read-only') || undefined,
+    watch: switches.has('watch') || undefined,
+  }, 'command-line flags');
+}
+
+// Helper function to apply one layer on top of the configuration built so far.
+// Settings a layer leaves out keep their value; lists are replaced, not merged.
+function applyLayer(config: ServerConfig, layer: ConfigLayer): ServerConfig {
+  const toolDefaults = { ...config.toolDefaults };
+  for (const [tool, defaults] of Object.entries(layer.toolDefaults ?? {})) {
+    toolDefaults[tool] = { ...toolDefaults[tool], ...defaults };
+  }
+  const defaults = { ...config.defaults, ...layer.defaults };
+  if (layer.backup?.enabled !== undefined) defaults.backup = layer.backup.enabled;
+
+  return {
+    ...config,
+    roots: layer.roots ?? config.roots,
+    defaults,
+    toolDefaults,
+    ignore: layer.ignore ?? config.ignore,
+    journalDir: layer.backup?.dir ?? config.journalDir,
+    timeouts: {
+      ugrepMs: layer.timeouts?.ugrepMs ?? config.timeouts.ugrepMs,
+      replaceMs: layer.timeouts?.replaceMs ?? config.timeouts.replaceMs,
+    },
+    output: layer.output ?? config.output,
+    tools: {
+      include: layer.tools?.include ?? config.tools.include,
+      exclude: layer.tools?.exclude ?? config.tools.exclude,
+    },
+    readOnly: layer.readOnly ?? config.readOnly,
+    watch: layer.watch ?? config.watch,
+  };
+}
+
+// Load the configuration, each source overriding the ones before it:
+// built-in defaults, the user-level file, the project file, CODESEEKER_* variables, command-line flags.
+// The project file is --config (or CODESEEKER_CONFIG) when given, otherwise codeseeker.config.json
+// in the first root named by a flag or variable, or in the working directory.
+export function loadConfig(argv: string[], env: NodeJS.ProcessEnv): ServerConfig {
+  const flags = flagLayer(argv);
+  const fromEnv = envLayer(env);
+  const explicit = readFlags(argv).values.get('config')?.at(-1) ?? env.CODESEEKER_CONFIG;
+  const projectFile = explicit
+    ? path.resolve(explicit)
+    : path.join(flags.roots?.[0] ?? fromEnv.roots?.[0] ?? process.cwd(), PROJECT_CONFIG_FILE);
+  const userFile = userConfigPath(env);
+
+  let config = DEFAULT_CONFIG;
+  const sources: string[] = [];
+  for (const [file, required] of [[userFile, false], [projectFile, !!explicit]] as const) {
+    const layer = readConfigFile(file, required);
+    if (layer) {
+      config = applyLayer(config, layer);
+      sources.push(file);
+    }
+  }
+  config = applyLayer(applyLayer(config, fromEnv), flags);
+
+  activeConfig = { ...config, sources };
+  return activeConfig;
+}
@@ -0,0 +1,203 @@
+// Unified diff generation for replacement previews.
+// Output follows the format produced by `diff -u` / `git diff`, so it can be fed to `git apply --check`.
+
+type EditType = 'equal' | 'delete' | 'insert';
+
+interface Edit {
+  type: EditType;
+  // Index into the original lines (for equal/delete) or the modified lines (for insert)
+  oldIndex: number;
+  newIndex: number;
+}
+
+// Above this many differing lines the diff falls back to replacing the whole middle section
+const MAX_EDIT_DISTANCE = 4000;
+
+// Helper function to split content into lines that keep their terminators,
+// so a missing newline at the end of the file counts as a difference
+function splitLines(content: string): string[] {
+  const lines = content.split(/(?<=\n)/);
+  return lines.length === 1 && lines[0] === '' ? [] : lines;
+}
+
+// Myers' O(ND) diff over the middle section a[start..aEnd) / b[start..bEnd)
+function myersDiff(a: string[], b: string[], start: number, aEnd: number, bEnd: number): Edit[] | null {
+  const n = aEnd - start;
+  const m = bEnd - start;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    if (d > MAX_EDIT_DISTANCE) return null;
+
+    // Only v[-d-1 .. d+1] is read while backtracking step d
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[start + x] === b[start + y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  const edits: Edit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const saved = trace[d];
+    const at = (k: number) => saved[k + d + 1];
+    const k = x - y;
+    const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      edits.push({ type: 'equal', oldIndex: start + x, newIndex: start + y });
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        edits.push({ type: 'insert', oldIndex: start + x, newIndex: start + prevY });
+      } else {
+        edits.push({ type: 'delete', oldIndex: start + prevX, newIndex: start + y });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return edits.reverse();
+}
+
+// Helper function to compute the line edit script between two versions
+function diffLines(a: string[], b: string[]): Edit[] {
+  // Strip the common prefix and suffix; replacements usually touch few lines
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const aEnd = a.length - suffix;
+  const bEnd = b.length - suffix;
+  const edits: Edit[] = [];
+
+  for (let i = 0; i < prefix; i++) {
+    edits.push({ type: 'equal', oldIndex: i, newIndex: i });
+  }
+
+  const middle = myersDiff(a, b, prefix, aEnd, bEnd);
+  if (middle) {
+    edits.push(...middle);
+  } else {
+    for (let i = prefix; i < aEnd; i++) edits.push({ type: 'delete', oldIndex: i, newIndex: prefix });
+    for (let j = prefix; j < bEnd; j++) edits.push({ type: 'insert', oldIndex: aEnd, newIndex: j });
+  }
+
+  for (let i = 0; i < suffix; i++) {
+    edits.push({ type: 'equal', oldIndex: aEnd + i, newIndex: bEnd + i });
+  }
+  return edits;
+}
+
+// Helper function to render one diff line, flagging a missing final newline
+function renderLine(prefix: string, line: string): string {
+  if (line.endsWith('\n')) {
+    return `${prefix}${line}`;
+  }
+  return `${prefix}${line}\n\\ No newline at end of file\n`;
+}
+
+// Helper function to format a hunk range ("start,count"); empty ranges point at the preceding line
+function formatRange(start: number, count: number): string {
+  const first = count === 0 ? start : start + 1;
+  return count === 1 ? `${first}` : `${first},${count}`;
+}
+
+export interface UnifiedDiff {
+  patch: string;
+  hunks: number;
+  additions: number;
+  deletions: number;
+}
+
+// Create a unified diff for one file; the patch is empty when the contents are identical
+export function createUnifiedDiff(
+  filePath: string,
+  original: string,
+  modified: string,
+  contextLines: number = 3
+): UnifiedDiff {
+  const a = splitLines(original);
+  const b = splitLines(modified);
+  const edits = diffLines(a, b);
+
+  const changeIndexes = edits
+    .map((edit, index) => (edit.type === 'equal' ? -1 : index))
+    .filter(index => index >= 0);
+
+  if (changeIndexes.length === 0) {
+    return { patch: '', hunks: 0, additions: 0, deletions: 0 };
+  }
+
+  // Group changes whose context windows touch into hunks
+  const ranges: Array<[number, number]> = [];
+  for (const index of changeIndexes) {
+    const from = Math.max(0, index - contextLines);
+    const to = Math.min(edits.length - 1, index + contextLines);
+    const last = ranges[ranges.length - 1];
+    if (last && from <= last[1] + 1) {
+      last[1] = Math.max(last[1], to);
+    } else {
+      ranges.push([from, to]);
+    }
+  }
+
+  let patch = `--- a/${filePath}\n+++ b/${filePath}\n`;
+  let additions = 0;
+  let deletions = 0;
+
+  for (const [from, to] of ranges) {
+    const hunk = edits.slice(from, to + 1);
+    const oldStart = hunk[0].oldIndex;
+    const newStart = hunk[0].newIndex;
+    const oldCount = hunk.filter(edit => edit.type !== 'insert').length;
+    const newCount = hunk.filter(edit => edit.type !== 'delete').length;
+
+    patch += `@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@\n`;
+    for (const edit of hunk) {
+      if (edit.type === 'equal') {
+        patch += renderLine(' ', a[edit.oldIndex]);
+      } else if (edit.type === 'delete') {
+        patch += renderLine('-', a[edit.oldIndex]);
+        deletions++;
+      } else {
+        patch += renderLine('+', b[edit.newIndex]);
+        additions++;
+      }
+    }
+  }
+
+  return { patch, hunks: ranges.length, additions, deletions };
+}
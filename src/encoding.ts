@@ -0,0 +1,142 @@
+import fs from "fs/promises";
+
+// Encodings a text file can be read and written back in without changing untouched bytes
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'latin1';
+
+// Line break style of a file; `mixed` and `none` files are left as they are
+export type LineEnding = 'lf' | 'crlf' | 'mixed' | 'none';
+
+// How a file was stored, so edited text can be written back the same way
+export interface FileEncoding {
+  encoding: TextEncoding;
+  bom: boolean;
+  lineEnding: LineEnding;
+}
+
+export interface DecodedFile {
+  text: string;
+  encoding: FileEncoding;
+}
+
+// Error raised for files that cannot be rewritten safely; `reason` is shown in tool summaries
+export class UnsupportedFileError extends Error {
+  constructor(public readonly filePath: string, public readonly reason: string) {
+    super(`${filePath} was not rewritten: ${reason}`);
+    this.name = 'UnsupportedFileError';
+  }
+}
+
+// Names used in messages and tool output
+const ENCODING_LABELS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16LE',
+  'utf-16be': 'UTF-16BE',
+  'latin1': 'Latin-1',
+};
+
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+const UTF16LE_BOM = Buffer.from([0xff, 0xfe]);
+const UTF16BE_BOM = Buffer.from([0xfe, 0xff]);
+
+// Helper function to swap the bytes of every UTF-16 code unit
+function swapBytes(buffer: Buffer): Buffer {
+  return Buffer.from(buffer).swap16();
+}
+
+// Helper function to find the line break style of decoded text
+export function detectLineEnding(text: string): LineEnding {
+  const crlf = (text.match(/\r\n/g) ?? []).length;
+  const lf = (text.match(/\n/g) ?? []).length - crlf;
+  if (crlf === 0 && lf === 0) return 'none';
+  if (crlf === 0) return 'lf';
+  if (lf === 0) return 'crlf';
+  return 'mixed';
+}
+
+// Helper function to bring line breaks in inserted text in line with the file's style
+export function matchLineEnding(text: string, lineEnding: LineEnding): string {
+  if (lineEnding === 'crlf') return text.replace(/\r?\n/g, '\r\n');
+  if (lineEnding === 'lf') return text.replace(/\r\n/g, '\n');
+  return text;
+}
+
+// Helper function to decode bytes without a BOM: UTF-8 when valid, otherwise Latin-1 text
+function decodeWithoutBom(buffer: Buffer, filePath: string): { text: string; encoding: TextEncoding } {
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true, ignoreBOM: true }).decode(buffer), encoding: 'utf-8' };
+  } catch {
+    // Latin-1 maps every byte to a character; C1 control bytes suggest some other 8-bit encoding
+    if (buffer.some(byte => byte >= 0x80 && byte < 0xa0)) {
+      throw new UnsupportedFileError(filePath, 'not valid UTF-8 and not Latin-1 text (unknown encoding)');
+    }
+    return { text: buffer.toString('latin1'), encoding: 'latin1' };
+  }
+}
+
+// Decode a file's bytes, detecting its encoding, BOM and line breaks.
+// Binary files (containing a NUL byte outside UTF-16) are refused unless `includeBinary` is set,
+// in which case they are read as Latin-1 so every byte survives the round trip.
+export function decodeText(buffer: Buffer, filePath: string, options: { includeBinary?: boolean } = {}): DecodedFile {
+  let text: string;
+  let encoding: TextEncoding;
+  let bom = false;
+
+  if (buffer.subarray(0, 3).equals(UTF8_BOM)) {
+    bom = true;
+    ({ text, encoding } = decodeWithoutBom(buffer.subarray(3), filePath));
+    if (encoding !== 'utf-8') {
+      throw new UnsupportedFileError(filePath, 'has a UTF-8 byte order mark but is not valid UTF-8');
+    }
+  } else if (buffer.subarray(0, 2).equals(UTF16LE_BOM) || buffer.subarray(0, 2).equals(UTF16BE_BOM)) {
+    bom = true;
+    encoding = buffer[0] === 0xff ? 'utf-16le' : 'utf-16be';
+    const body = buffer.subarray(2);
+    if (body.length % 2 !== 0) {
+      throw new UnsupportedFileError(filePath, `truncated ${ENCODING_LABELS[encoding]} content (odd number of bytes)`);
+    }
+    text = (encoding === 'utf-16le' ? body : swapBytes(body)).toString('utf16le');
+  } else if (buffer.includes(0)) {
+    if (!options.includeBinary) {
+      throw new UnsupportedFileError(filePath, 'binary file (contains NUL bytes); pass includeBinary: true to edit it');
+    }
+    text = buffer.toString('latin1');
+    encoding = 'latin1';
+  } else {
+    ({ text, encoding } = decodeWithoutBom(buffer, filePath));
+  }
+
+  const decoded: DecodedFile = { text, encoding: { encoding, bom, lineEnding: detectLineEnding(text) } };
+  // Only edit what can be written back byte for byte (e.g. no unpaired UTF-16 surrogates)
+  if (!encodeText(text, decoded.encoding).equals(buffer)) {
+    throw new UnsupportedFileError(filePath, `content does not survive ${ENCODING_LABELS[encoding]} decoding unchanged`);
+  }
+  return decoded;
+}
+
+// Encode text the way the original file was stored, BOM included
+export function encodeText(text: string, encoding: FileEncoding): Buffer {
+  let body: Buffer;
+  if (encoding.encoding === 'utf-16le' || encoding.encoding === 'utf-16be') {
+    body = Buffer.from(text, 'utf16le');
+    if (encoding.encoding === 'utf-16be') body.swap16();
+  } else {
+    body = Buffer.from(text, encoding.encoding === 'latin1' ? 'latin1' : 'utf-8');
+  }
+  if (!encoding.bom) return body;
+  const bom = encoding.encoding === 'utf-8' ? UTF8_BOM : encoding.encoding === 'utf-16le' ? UTF16LE_BOM : UTF16BE_BOM;
+  return Buffer.concat([bom, body]);
+}
+
+// Read and decode a text file; see decodeText
+export async function readTextFile(filePath: string, displayPath: string, options: { includeBinary?: boolean } = {}): Promise<DecodedFile> {
+  return decodeText(await fs.readFile(filePath), displayPath, options);
+}
+
+// Helper function to describe a non-default encoding for tool output, empty for plain UTF-8 with LF
+export function describeEncoding(encoding: FileEncoding): string {
+  const parts = [
+    encoding.encoding !== 'utf-8' || encoding.bom ? `${ENCODING_LABELS[encoding.encoding]}${encoding.bom ? ' with BOM' : ''}` : '',
+    encoding.lineEnding === 'crlf' ? 'CRLF' : encoding.lineEnding === 'mixed' ? 'mixed line endings' : '',
+  ].filter(Boolean);
+  return parts.join(', ');
+}
@@ -0,0 +1,318 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { spawn } from "child_process";
+import { z } from "zod";
+import path from "path";
+import fs from "fs/promises";
+
+// Limits for a single git invocation
+const GIT_TIMEOUT_MS = 60_000;
+const GIT_MAX_BYTES = 16 * 1024 * 1024;
+
+// File sets a search or replacement can be limited to
+export type GitScope = 'all' | 'changed' | 'staged' | 'untracked' | `since:${string}`;
+
+const GIT_SCOPE_PATTERN = /^(all|changed|staged|untracked|since:.+)$/;
+
+// Helper function to narrow a scope string to a GitScope
+function isGitScope(value: string): value is GitScope {
+  return GIT_SCOPE_PATTERN.test(value);
+}
+
+// Tool parameter selecting a scope. The regex publishes the format in the JSON schema; the
+// refinement only narrows the parsed value to GitScope.
+export const gitScopeField = z.string()
+  .regex(GIT_SCOPE_PATTERN, "Expected all, changed, staged, untracked or since:<rev>")
+  .refine(isGitScope)
+  .optional()
+  .default('all')
+  .describe("Limit to files git reports: 'changed' (staged or unstaged edits), 'staged', 'untracked', 'since:<rev>' (differs from a revision), or 'all'");
+
+export interface GitRunResult {
+  stdout: string;
+  exitCode: number | null;
+  // Output hit the byte cap and git was stopped early
+  truncated: boolean;
+}
+
+// Error raised when git cannot be started, times out or reports a failure
+export class GitError extends Error {
+  constructor(message: string, public readonly exitCode: number | null = null) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
+
+// Run git with an argv array (no shell). Exit codes listed in `okExitCodes` are not failures.
+export function runGit(
+  args: string[],
+  options: { cwd: string; okExitCodes?: number[]; maxBytes?: number }
+): Promise<GitRunResult> {
+  const okExitCodes = options.okExitCodes ?? [0];
+  const maxBytes = options.maxBytes ?? GIT_MAX_BYTES;
+
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', args, {
+      cwd: options.cwd,
+      shell: false,
+      windowsHide: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      // Never wait for credentials or an editor
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0', GIT_OPTIONAL_LOCKS: '0' },
+    });
+
+    const chunks: Buffer[] = [];
+    let bytes = 0;
+    let stderr = '';
+    let truncated = false;
+    let timedOut = false;
+    let settled = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill();
+    }, GIT_TIMEOUT_MS);
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      if (truncated) return;
+      if (bytes + chunk.length > maxBytes) {
+        chunks.push(chunk.subarray(0, maxBytes - bytes));
+        truncated = true;
+        child.kill();
+        return;
+      }
+      chunks.push(chunk);
+      bytes += chunk.length;
+    });
+
+    child.stderr.on('data', (chunk: Buffer) => {
+      if (stderr.length < 64 * 1024) {
+        stderr += chunk.toString('utf-8');
+      }
+    });
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      reject(error.code === 'ENOENT'
+        ? new GitError('git is not installed or not in PATH')
+        : new GitError(`Failed to run git: ${error.message}`));
+    });
+
+    child.on('close', (code) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+
+      if (timedOut) {
+        reject(new GitError(`git ${args[0]} timed out after ${GIT_TIMEOUT_MS}ms`, code));
+      } else if (!truncated && !okExitCodes.includes(code ?? -1)) {
+        reject(new GitError(stderr.trim() || `git ${args[0]} exited with code ${code}`, code));
+      } else {
+        resolve({ stdout: Buffer.concat(chunks).toString('utf-8'), exitCode: code, truncated });
+      }
+    });
+  });
+}
+
+// Helper function to find the top-level directory of the repository containing a path
+export async function findRepositoryRoot(targetPath: string): Promise<string> {
+  const stats = await fs.stat(targetPath);
+  const dir = stats.isDirectory() ? targetPath : path.dirname(targetPath);
+  try {
+    const { stdout } = await runGit(['rev-parse', '--show-toplevel'], { cwd: dir });
+    return path.resolve(stdout.trim());
+  } catch (error) {
+    if (error instanceof GitError && error.exitCode !== null) {
+      throw new McpError(ErrorCode.InvalidParams, `${targetPath} is not inside a git repository`);
+    }
+    throw error;
+  }
+}
+
+// Helper function to check a revision argument and resolve it to a commit
+export async function resolveRevision(repoRoot: string, revision: string): Promise<string> {
+  // A leading dash would be read as an option
+  if (!revision || revision.startsWith('-')) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid git revision: "${revision}"`);
+  }
+  const { stdout, exitCode } = await runGit(['rev-parse', '--verify', '--quiet', `${revision}^{commit}`], {
+    cwd: repoRoot,
+    okExitCodes: [0, 1],
+  });
+  if (exitCode !== 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown git revision: "${revision}"`);
+  }
+  return stdout.trim();
+}
+
+// Helper function to reject filters that ugrep only applies while walking directories, since
+// a scoped search hands ugrep a list of files instead
+export function assertScopeFilters(
+  scope: string,
+  args: { fileTypes?: string; excludeTypes?: string; recursiveDepth?: number }
+): void {
+  if (scope === 'all') return;
+  const unsupported = (['fileTypes', 'excludeTypes', 'recursiveDepth'] as const).filter(field => args[field] !== undefined);
+  if (unsupported.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${unsupported.join(', ')} cannot be combined with scope "${scope}"; use include/exclude globs instead`
+    );
+  }
+}
+
+// Helper function to split NUL-separated git output into repository-relative paths
+function splitPaths(stdout: string): string[] {
+  return stdout.split('\0').filter(entry => entry.length > 0);
+}
+
+// Resolve a scope to the existing files below `searchPath` it covers, or undefined for `all`.
+// Deleted files are left out, since there is nothing left to search or edit.
+export async function resolveScopeFiles(searchPath: string, scope: GitScope): Promise<string[] | undefined> {
+  if (scope === 'all') {
+    return undefined;
+  }
+
+  const repoRoot = await findRepositoryRoot(searchPath);
+  // git treats pathspecs as relative to the working directory, so run everything from the top level
+  const pathspec = path.relative(repoRoot, searchPath).split(path.sep).join('/') || '.';
+  const listNames = async (args: string[]) =>
+    splitPaths((await runGit([...args, '--', pathspec], { cwd: repoRoot })).stdout);
+
+  let names: string[];
+  if (scope === 'changed') {
+    // Staged and unstaged changes to tracked files; works before the first commit too
+    names = [
+      ...await listNames(['diff', '--name-only', '-z', '--no-renames', '--diff-filter=d', '--cached']),
+      ...await listNames(['diff', '--name-only', '-z', '--no-renames', '--diff-filter=d']),
+    ];
+  } else if (scope === 'staged') {
+    names = await listNames(['diff', '--name-only', '-z', '--no-renames', '--diff-filter=d', '--cached']);
+  } else if (scope === 'untracked') {
+    names = await listNames(['ls-files', '-z', '--others', '--exclude-standard', '--full-name']);
+  } else {
+    // Everything that differs from the revision: commits since then plus uncommitted changes
+    const commit = await resolveRevision(repoRoot, scope.slice('since:'.length));
+    names = await listNames(['diff', '--name-only', '-z', '--no-renames', '--diff-filter=d', commit]);
+  }
+
+  const files: string[] = [];
+  for (const name of [...new Set(names)].sort()) {
+    const file = path.join(repoRoot, name);
+    try {
+      if ((await fs.stat(file)).isFile()) files.push(file);
+    } catch {
+      // Deleted in the working tree after it was staged
+    }
+  }
+  return files;
+}
+
+// Commits passed to one `git grep` invocation
+const HISTORY_BATCH_SIZE = 100;
+
+// A match of the pattern in one file of a commit
+export interface HistoryMatch {
+  file: string;
+  line: number;
+  column: number;
+  text: string;
+}
+
+// One commit of the searched range, newest first
+export interface HistoryCommit {
+  commit: string;
+  shortCommit: string;
+  date: string;
+  author: string;
+  subject: string;
+  matchCount: number;
+  fileCount: number;
+  // At most `maxMatchesPerCommit` of the matches
+  matches: HistoryMatch[];
+}
+
+export interface HistorySearchResult {
+  repository: string;
+  commits: HistoryCommit[];
+  // More commits exist in the range than were searched
+  moreCommits: boolean;
+  // git output hit the byte cap, so match counts are lower bounds
+  truncated: boolean;
+}
+
+// Helper function to validate a revision range such as `main..feature`, `v1.0...HEAD` or `HEAD~50`
+function parseRevisionRange(range: string): string {
+  const parts = range.split(/\.{2,3}/);
+  if (/\s/.test(range) || parts.length > 2 || parts.some(part => part.startsWith('-')) || parts.every(part => !part)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid revision range: "${range}"`);
+  }
+  return range;
+}
+
+// Search the history of a repository: run `git grep` over every commit of a range (newest first)
+// and report how many matches each commit has, so appearances and disappearances can be located.
+export async function searchHistory(
+  searchPath: string,
+  options: {
+    pattern: string;
+    range: string;
+    caseSensitive: boolean;
+    maxCommits: number;
+    maxMatchesPerCommit: number;
+  }
+): Promise<HistorySearchResult> {
+  const repoRoot = await findRepositoryRoot(searchPath);
+  const pathspec = path.relative(repoRoot, searchPath).split(path.sep).join('/') || '.';
+  const range = parseRevisionRange(options.range);
+
+  // One extra commit tells whether the range was cut off
+  const log = await runGit([
+    'log', '--format=%H%x00%h%x00%ad%x00%an%x00%s', '--date=short', `--max-count=${options.maxCommits + 1}`, range, '--', pathspec,
+  ], { cwd: repoRoot });
+  const commits: HistoryCommit[] = log.stdout.split('\n').filter(line => line.length > 0).map(line => {
+    const [commit, shortCommit, date, author, subject] = line.split('\0');
+    return { commit, shortCommit, date, author, subject, matchCount: 0, fileCount: 0, matches: [] };
+  });
+  const moreCommits = commits.length > options.maxCommits;
+  commits.splice(options.maxCommits);
+
+  const byCommit = new Map(commits.map(commit => [commit.commit, commit]));
+  const filesByCommit = new Map<string, Set<string>>();
+  let truncated = false;
+  let budget = GIT_MAX_BYTES;
+
+  for (let i = 0; i < commits.length && !truncated; i += HISTORY_BATCH_SIZE) {
+    const batch = commits.slice(i, i + HISTORY_BATCH_SIZE).map(commit => commit.commit);
+    // -z separates the file name, line and column with NUL so names may contain colons
+    const grep = await runGit([
+      'grep', '-z', '-n', '--column', '-I', '-E', ...(options.caseSensitive ? [] : ['-i']),
+      '-e', options.pattern, ...batch, '--', pathspec,
+    ], { cwd: repoRoot, okExitCodes: [0, 1], maxBytes: budget });
+    budget -= Buffer.byteLength(grep.stdout);
+    truncated = grep.truncated;
+
+    const lines = grep.stdout.split('\n');
+    // The last line of capped output may be incomplete
+    if (grep.truncated) lines.pop();
+    for (const line of lines) {
+      const [location, lineNumber, column, ...rest] = line.split('\0');
+      const separator = location?.indexOf(':') ?? -1;
+      const entry = separator > 0 ? byCommit.get(location.slice(0, separator)) : undefined;
+      if (!entry || rest.length === 0) continue;
+
+      const file = location.slice(separator + 1);
+      entry.matchCount++;
+      const files = filesByCommit.get(entry.commit) ?? new Set<string>();
+      files.add(file);
+      filesByCommit.set(entry.commit, files);
+      entry.fileCount = files.size;
+      if (entry.matches.length < options.maxMatchesPerCommit) {
+        entry.matches.push({ file, line: Number(lineNumber), column: Number(column), text: rest.join('\0') });
+      }
+    }
+  }
+
+  return { repository: repoRoot, commits, moreCommits, truncated };
+}
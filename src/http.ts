@@ -0,0 +1,132 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { timingSafeEqual } from "crypto";
+import http from "http";
+import { RootSession, runInRootSession } from "./sandbox.js";
+
+// Paths of the SSE stream and of the endpoint clients POST their messages to
+const SSE_PATH = '/sse';
+const MESSAGE_PATH = '/messages';
+
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+export interface HttpOptions {
+  port: number;
+  host: string;
+  // Required as `Authorization: Bearer <token>` on every request when set
+  token?: string;
+}
+
+// One connected client: its transport and the workspace roots it announced
+interface HttpSession {
+  transport: SSEServerTransport;
+  roots: RootSession;
+}
+
+// Helper function to read --http <port>, --host <address> and the bearer token (--token or
+// CODESEEKER_HTTP_TOKEN) from the command line; undefined when the server should use stdio
+export function parseHttpArgs(argv: string[], env: NodeJS.ProcessEnv): HttpOptions | undefined {
+  const values = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const match = /^--(http|host|token)(?:=(.*))?$/.exec(argv[i]);
+    if (!match) continue;
+    const value = match[2] ?? argv[++i];
+    if (value === undefined) {
+      throw new Error(`--${match[1]} needs a value`);
+    }
+    values.set(match[1], value);
+  }
+
+  if (!values.has('http')) {
+    if (values.has('host') || values.has('token')) {
+      throw new Error('--host and --token only apply together with --http <port>');
+    }
+    return undefined;
+  }
+
+  const port = Number(values.get('http'));
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`--http expects a port between 1 and 65535, got ${JSON.stringify(values.get('http'))}`);
+  }
+  const host = values.get('host') ?? '127.0.0.1';
+  const token = values.get('token') ?? env.CODESEEKER_HTTP_TOKEN;
+  if (!token && !LOOPBACK_HOSTS.includes(host)) {
+    throw new Error(`Refusing to listen on ${host} without a bearer token; set CODESEEKER_HTTP_TOKEN or pass --token`);
+  }
+  return { port, host, token: token || undefined };
+}
+
+// Helper function to compare the Authorization header with the expected token in constant time
+function isAuthorized(req: http.IncomingMessage, token: string | undefined): boolean {
+  if (!token) return true;
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// Helper function to reject requests for other host names on a loopback address, so a web page
+// cannot reach the server through DNS rebinding
+function isAllowedHost(req: http.IncomingMessage, options: HttpOptions): boolean {
+  if (!LOOPBACK_HOSTS.includes(options.host)) return true;
+  const hostname = (req.headers.host ?? '').replace(/:\d+$/, '').replace(/^\[(.*)\]$/, '$1');
+  return LOOPBACK_HOSTS.includes(hostname);
+}
+
+// Serve MCP over HTTP with server-sent events. Every client gets its own Server instance and its
+// own workspace roots; indexes, caches and the file watcher are shared by all of them.
+export function startHttpServer(createServer: () => Server, options: HttpOptions): Promise<http.Server> {
+  const sessions = new Map<string, HttpSession>();
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      if (!isAllowedHost(req, options)) {
+        res.writeHead(403).end('Forbidden host');
+        return;
+      }
+      if (!isAuthorized(req, options.token)) {
+        res.writeHead(401, { 'WWW-Authenticate': 'Bearer' }).end('Unauthorized');
+        return;
+      }
+
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if (req.method === 'GET' && url.pathname === SSE_PATH) {
+        const transport = new SSEServerTransport(MESSAGE_PATH, res);
+        const session: HttpSession = { transport, roots: { roots: [] } };
+        sessions.set(transport.sessionId, session);
+        transport.onclose = () => {
+          sessions.delete(transport.sessionId);
+        };
+        await runInRootSession(session.roots, () => createServer().connect(transport));
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === MESSAGE_PATH) {
+        const session = sessions.get(url.searchParams.get('sessionId') ?? '');
+        if (!session) {
+          res.writeHead(404).end('Unknown session');
+          return;
+        }
+        // Handlers started by this message see the session's roots
+        await runInRootSession(session.roots, () => session.transport.handlePostMessage(req, res));
+        return;
+      }
+
+      res.writeHead(404).end('Not found');
+    } catch (error) {
+      console.error("HTTP request failed:", error);
+      if (!res.headersSent) {
+        res.writeHead(500).end('Internal server error');
+      }
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve(httpServer);
+    });
+  });
+}
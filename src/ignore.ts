@@ -0,0 +1,254 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import path from "path";
+import fs from "fs/promises";
+import { getConfig } from "./config.js";
+import { findContainingRoot } from "./sandbox.js";
+
+// Ignore files honoured in every directory, later files overriding earlier ones
+export const IGNORE_FILES = ['.gitignore', '.ignore', '.codeseekerignore'];
+
+// The server's own state (change journal, trigram index): never searched or rewritten, whatever
+// respectIgnore says, since rewriting a journal backup would break undo
+const BUILTIN_EXCLUDES = ['.codeseeker/'];
+
+// Files the server itself used to leave next to sources (file.backup-<timestamp>)
+const LEGACY_EXCLUDES = ['*.backup-*'];
+
+export interface FileFilterOptions {
+  include?: string[];
+  exclude?: string[];
+  // Honour ignore files and the legacy backup excludes (default true)
+  respectIgnore?: boolean;
+}
+
+// Tool parameters shared by every tool that walks files
+export const fileFilterFields = {
+  include: z.array(z.string().min(1)).optional().describe("Only files matching one of these globs (a glob with '/' matches the path relative to the workspace root, otherwise the file name)"),
+  exclude: z.array(z.string().min(1)).optional().describe("Skip files and directories matching any of these globs (same matching as include)"),
+  respectIgnore: z.boolean().optional().default(true).describe("Skip files listed in .gitignore, .ignore and .codeseekerignore"),
+};
+
+// Decides which files and directories a tool may look at
+export interface FileFilter {
+  accepts(filePath: string, isDirectory?: boolean): Promise<boolean>;
+}
+
+// One glob from an ignore file or an include/exclude list
+interface GlobRule {
+  regex: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+  // Contains a slash, so it matches the path relative to its base instead of the name
+  anchored: boolean;
+}
+
+// Helper function to translate a gitignore-style glob into a regular expression
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (glob.startsWith('/**', i) && i + 3 === glob.length) {
+      source += '/.*';
+      i += 2;
+    } else if (char === '*') {
+      while (glob[i + 1] === '*') i++;
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 2);
+      if (close < 0) {
+        source += '\\[';
+        continue;
+      }
+      let body = glob.slice(i + 1, close).replace(/\\/g, '\\\\');
+      if (body.startsWith('!')) body = `^${body.slice(1)}`;
+      source += `[${body}]`;
+      i = close;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Helper function to parse one glob; `allowNegation` is only set for ignore files
+function parseGlob(raw: string, allowNegation: boolean): GlobRule | null {
+  let glob = raw;
+  let negate = false;
+  if (allowNegation && glob.startsWith('!')) {
+    negate = true;
+    glob = glob.slice(1);
+  } else if (glob.startsWith('\\!') || glob.startsWith('\\#')) {
+    glob = glob.slice(1);
+  }
+
+  const directoryOnly = glob.endsWith('/');
+  glob = glob.replace(/\/+$/, '');
+  const anchored = glob.includes('/');
+  glob = glob.replace(/^\/+/, '');
+  if (!glob) return null;
+
+  return { regex: globToRegExp(glob), negate, directoryOnly, anchored };
+}
+
+// Helper function to read the rules of an ignore file; missing files have none
+async function readIgnoreFile(filePath: string): Promise<GlobRule[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return [];
+  }
+  const rules: GlobRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are dropped unless escaped
+    const line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+    const rule = parseGlob(line, true);
+    if (rule) rules.push(rule);
+  }
+  return rules;
+}
+
+// Helper function to test a rule against a path relative to the rule's base directory
+function ruleMatches(rule: GlobRule, relative: string, isDirectory: boolean): boolean {
+  if (rule.directoryOnly && !isDirectory) return false;
+  return rule.regex.test(rule.anchored ? relative : path.posix.basename(relative));
+}
+
+// Helper function to validate include/exclude globs from tool arguments
+function parseArgumentGlobs(globs: string[] | undefined, field: string): GlobRule[] {
+  return (globs ?? []).map(glob => {
+    const rule = glob.trim() ? parseGlob(glob.trim(), false) : null;
+    if (!rule) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid glob "${glob}" in ${field}`);
+    }
+    return rule;
+  });
+}
+
+// Helper function to check whether a glob only looks at names, so ugrep can apply it on its own
+function isNameGlob(glob: string): boolean {
+  return !glob.replace(/\/+$/, '').includes('/');
+}
+
+// ugrep options for the ignore files and the name-only globs. Globs that contain a slash are
+// applied by the file filter afterwards, because ugrep matches them against its own paths;
+// `pathGlobs` passes them to ugrep anyway, for commands a person runs from the workspace root.
+export function buildIgnoreArgs(options: FileFilterOptions, { pathGlobs = false } = {}): string[] {
+  const argv: string[] = [];
+  if (options.respectIgnore !== false) {
+    argv.push(...IGNORE_FILES.map(file => `--ignore-files=${file}`));
+    argv.push(...LEGACY_EXCLUDES.map(glob => `--exclude=${glob}`));
+  }
+  for (const glob of (options.include ?? []).map(item => item.trim())) {
+    // Directory globs cannot be expressed as an include without also hiding their subdirectories
+    if ((pathGlobs || isNameGlob(glob)) && !glob.endsWith('/')) argv.push(`--include=${glob}`);
+  }
+  // The configured ignore globs apply to every call, whatever respectIgnore says
+  for (const glob of [...(options.exclude ?? []), ...getConfig().ignore, ...BUILTIN_EXCLUDES].map(item => item.trim())) {
+    if (!pathGlobs && !isNameGlob(glob)) continue;
+    const name = glob.replace(/\/+$/, '');
+    argv.push(`--exclude-dir=${name}`);
+    if (!glob.endsWith('/')) argv.push(`--exclude=${name}`);
+  }
+  return argv;
+}
+
+// Build the filter for a tool call. Globs with a slash match paths relative to the workspace root.
+export function createFileFilter(options: FileFilterOptions): FileFilter {
+  const respectIgnore = options.respectIgnore !== false;
+  const includes = parseArgumentGlobs(options.include, 'include');
+  const excludes = [
+    ...parseArgumentGlobs(options.exclude, 'exclude'),
+    ...parseArgumentGlobs(getConfig().ignore, 'the configured ignore list'),
+    ...BUILTIN_EXCLUDES.map(glob => parseGlob(glob, false)!),
+    ...(respectIgnore ? LEGACY_EXCLUDES.map(glob => parseGlob(glob, false)!) : []),
+  ];
+
+  const rulesByDirectory = new Map<string, Promise<GlobRule[]>>();
+  const directoryVerdicts = new Map<string, Promise<boolean>>();
+
+  // Rules from every ignore file in one directory, in precedence order
+  const directoryRules = (dir: string): Promise<GlobRule[]> => {
+    let rules = rulesByDirectory.get(dir);
+    if (!rules) {
+      rules = Promise.all(IGNORE_FILES.map(file => readIgnoreFile(path.join(dir, file)))).then(lists => lists.flat());
+      rulesByDirectory.set(dir, rules);
+    }
+    return rules;
+  };
+
+  // Whether the ignore files or excludes drop a path, given that none of its parents is dropped
+  const isDropped = async (root: string, relative: string, isDirectory: boolean): Promise<boolean> => {
+    if (excludes.some(rule => ruleMatches(rule, relative, isDirectory))) return true;
+    if (!respectIgnore) return false;
+
+    const segments = relative.split('/');
+    let ignored = false;
+    for (let depth = 0; depth < segments.length; depth++) {
+      const base = path.join(root, ...segments.slice(0, depth));
+      const below = segments.slice(depth).join('/');
+      for (const rule of await directoryRules(base)) {
+        if (ruleMatches(rule, below, isDirectory)) ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  };
+
+  // Directories are checked once; a dropped directory drops everything below it
+  const isDirectoryAccepted = (root: string, relative: string): Promise<boolean> => {
+    const key = `${root}\0${relative}`;
+    let verdict = directoryVerdicts.get(key);
+    if (!verdict) {
+      verdict = (async () => {
+        const parent = path.posix.dirname(relative);
+        if (parent !== '.' && !(await isDirectoryAccepted(root, parent))) return false;
+        return !(await isDropped(root, relative, true));
+      })();
+      directoryVerdicts.set(key, verdict);
+    }
+    return verdict;
+  };
+
+  return {
+    async accepts(filePath: string, isDirectory = false): Promise<boolean> {
+      const absolute = path.resolve(filePath);
+      const root = findContainingRoot(absolute) ?? path.dirname(absolute);
+      const relative = path.relative(root, absolute).split(path.sep).join('/');
+      if (!relative) return true;
+
+      if (isDirectory) {
+        return isDirectoryAccepted(root, relative);
+      }
+
+      const parent = path.posix.dirname(relative);
+      if (parent !== '.' && !(await isDirectoryAccepted(root, parent))) return false;
+      if (await isDropped(root, relative, false)) return false;
+
+      if (includes.length === 0) return true;
+      const parents = relative.split('/').slice(0, -1).map((_, index, all) => all.slice(0, index + 1).join('/'));
+      return includes.some(rule =>
+        rule.directoryOnly
+          ? parents.some(dir => ruleMatches(rule, dir, true))
+          : ruleMatches(rule, relative, false)
+      );
+    },
+  };
+}
+
+// Helper function to describe the active filters for tool output, empty when only the defaults apply
+export function describeFileFilter(options: FileFilterOptions): string {
+  const parts: string[] = [];
+  if (options.include?.length) parts.push(`include ${options.include.map(glob => `\`${glob}\``).join(', ')}`);
+  if (options.exclude?.length) parts.push(`exclude ${options.exclude.map(glob => `\`${glob}\``).join(', ')}`);
+  if (options.respectIgnore === false) parts.push('ignore files disabled');
+  return parts.join('; ');
+}
@@ -0,0 +1,435 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { createHash, randomBytes } from "crypto";
+import path from "path";
+import fs from "fs/promises";
+import { getConfig } from "./config.js";
+import { FileEncoding, encodeText } from "./encoding.js";
+import { throwIfCancelled } from "./progress.js";
+import { assertInsideRoots, getAllowedRoots, toRootRelative } from "./sandbox.js";
+import { notifyFilesChanged } from "./watcher.js";
+
+// One file touched by a changeset
+export interface ChangesetFile {
+  path: string;
+  // sha256 of the content before the first write in this changeset
+  originalHash: string;
+  // sha256 of the content after the last write in this changeset
+  newHash: string;
+  // Name of the stored original inside the changeset directory, null when backups were disabled
+  backup: string | null;
+}
+
+// A recorded, non-dry-run write operation
+export interface Changeset {
+  id: string;
+  tool: string;
+  description: string;
+  createdAt: string;
+  undoneAt?: string;
+  files: ChangesetFile[];
+}
+
+export interface UndoReport {
+  restored: string[];
+  conflicts: string[];
+  missingBackups: string[];
+}
+
+const MANIFEST_FILE = 'changeset.json';
+
+// Helper function to locate the journal directory (backup.dir in the configuration, if set)
+export function getJournalDir(): string {
+  const { journalDir } = getConfig();
+  if (journalDir) {
+    return journalDir;
+  }
+  const root = getAllowedRoots()[0] ?? process.cwd();
+  return path.join(root, '.codeseeker', 'journal');
+}
+
+// Helper function to check whether a path lies in the journal directory, whose backups no tool may edit
+export function isInJournal(filePath: string): boolean {
+  const relative = path.relative(getJournalDir(), path.resolve(filePath));
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+// Helper function to hash file content
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+// Helper function to validate a changeset id before using it as a directory name
+function changesetDir(id: string): string {
+  if (!/^[0-9A-Za-z-]+$/.test(id)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid changeset id: ${id}`);
+  }
+  return path.join(getJournalDir(), id);
+}
+
+// Start a new changeset; nothing is written until the first file change
+export function startChangeset(tool: string, description: string): Changeset {
+  const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  return {
+    id: `${timestamp}-${randomBytes(3).toString('hex')}`,
+    tool,
+    description,
+    createdAt: new Date().toISOString(),
+    files: [],
+  };
+}
+
+// Helper function to persist the changeset manifest
+async function saveChangeset(changeset: Changeset): Promise<void> {
+  const dir = changesetDir(changeset.id);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, MANIFEST_FILE), JSON.stringify(changeset, null, 2), 'utf-8');
+}
+
+// The state of a file when it was read, to detect changes made before the edits are written
+export interface FileSnapshot {
+  mtimeMs: number;
+  hash: string;
+}
+
+// New content for one file, computed in memory from the content captured in `snapshot`
+export interface FileEdit {
+  file: string;
+  original: string;
+  modified: string;
+  // Encode both texts the way the file is stored instead of as UTF-8
+  encoding?: FileEncoding;
+  snapshot: FileSnapshot;
+}
+
+// Error raised when files changed on disk between being read and being written; nothing is written
+export class StaleFileError extends Error {
+  constructor(public readonly files: string[]) {
+    super(`No files were changed: ${files.length} file(s) changed on disk since they were read (${files.join(', ')}); run the tool again`);
+    this.name = 'StaleFileError';
+  }
+}
+
+// Read a file together with a snapshot of its state
+export async function readFileSnapshot(filePath: string): Promise<{ bytes: Buffer; snapshot: FileSnapshot }> {
+  const stats = await fs.stat(filePath);
+  const bytes = await fs.readFile(filePath);
+  return { bytes, snapshot: { mtimeMs: stats.mtimeMs, hash: hashContent(bytes) } };
+}
+
+// Helper function to check whether a file still matches its snapshot
+async function isUnchanged(filePath: string, snapshot: FileSnapshot): Promise<boolean> {
+  try {
+    const { snapshot: current } = await readFileSnapshot(filePath);
+    return current.mtimeMs === snapshot.mtimeMs && current.hash === snapshot.hash;
+  } catch {
+    return false;
+  }
+}
+
+// Helper function to write content next to a file under a temporary name, keeping the file's mode
+async function writeTemporary(target: string, content: Buffer, mode?: number): Promise<string> {
+  const temporary = path.join(path.dirname(target), `.${path.basename(target)}.${randomBytes(4).toString('hex')}.codeseeker-tmp`);
+  await fs.writeFile(temporary, content, { flag: 'wx' });
+  if (mode !== undefined) await fs.chmod(temporary, mode);
+  return temporary;
+}
+
+// A file whose new content is waiting next to it under a temporary name
+interface StagedWrite {
+  // The file as named in the changeset
+  file: string;
+  // The file actually replaced, with symlinks resolved
+  target: string;
+  // Content put back when the batch fails; null when the file did not exist and is removed instead
+  previous: Buffer | null;
+  // Mode of the existing file; a recreated file gets the default mode
+  mode?: number;
+  temporary?: string;
+}
+
+// Error raised when a staged batch could not be renamed into place. The files already replaced were
+// put back, except those listed in `unrestored`.
+class BatchWriteError extends Error {
+  constructor(public readonly reason: string, public readonly replaced: number, public readonly unrestored: string[]) {
+    super(reason);
+    this.name = 'BatchWriteError';
+  }
+}
+
+// Helper function to remove the temporary files of a batch that is not renamed into place
+async function discardStaged(staged: StagedWrite[]): Promise<void> {
+  await Promise.all(staged.map(entry =>
+    entry.temporary ? fs.rm(entry.temporary, { force: true }) : undefined
+  ));
+}
+
+// Helper function to rename every staged file into place. When a rename fails, the remaining
+// temporary files are removed and the files already replaced get their previous content back.
+async function renameStaged(staged: StagedWrite[]): Promise<void> {
+  const replaced: StagedWrite[] = [];
+  try {
+    for (const entry of staged) {
+      await fs.rename(entry.temporary!, entry.target);
+      entry.temporary = undefined;
+      replaced.push(entry);
+    }
+  } catch (error) {
+    await discardStaged(staged);
+    const unrestored: string[] = [];
+    for (const entry of replaced) {
+      try {
+        if (entry.previous === null) {
+          await fs.rm(entry.target, { force: true });
+        } else {
+          await fs.rename(await writeTemporary(entry.target, entry.previous, entry.mode), entry.target);
+        }
+      } catch {
+        unrestored.push(toRootRelative(entry.file));
+      }
+    }
+    notifyFilesChanged(replaced.map(entry => path.resolve(entry.file)));
+    throw new BatchWriteError(error instanceof Error ? error.message : String(error), replaced.length, unrestored);
+  }
+
+  // Caches must not wait for the watcher (or a poll) to see our own writes
+  notifyFilesChanged(staged.map(entry => path.resolve(entry.file)));
+}
+
+// An edit staged for applyEdits, with both contents encoded the way the file is stored
+interface StagedEdit extends StagedWrite {
+  edit: FileEdit;
+  original: Buffer;
+  modified: Buffer;
+}
+
+// Write a batch of edits as one all-or-nothing operation and record it in the journal.
+// Every new content is first written to a temporary file next to its target. The targets are then
+// checked against their snapshots, and only if none changed are the temporary files renamed into
+// place. When a rename fails, the files already replaced are restored and the changeset is dropped.
+// A cancelled request stops before the first rename; once files are being replaced, the batch is finished.
+export async function applyEdits(
+  changeset: Changeset,
+  edits: FileEdit[],
+  options: { backup: boolean; signal?: AbortSignal }
+): Promise<void> {
+  const staged: StagedEdit[] = [];
+
+  try {
+    for (const edit of edits) {
+      const encode = (text: string) => edit.encoding ? encodeText(text, edit.encoding) : Buffer.from(text, 'utf-8');
+      // Replace the file a symlink points to, not the link itself
+      const target = await fs.realpath(edit.file);
+      const original = encode(edit.original);
+      const entry: StagedEdit = {
+        edit,
+        file: edit.file,
+        target,
+        previous: original,
+        original,
+        modified: encode(edit.modified),
+        mode: (await fs.stat(target)).mode & 0o7777,
+      };
+      staged.push(entry);
+      entry.temporary = await writeTemporary(target, entry.modified, entry.mode);
+    }
+
+    const stale: string[] = [];
+    for (const { edit } of staged) {
+      if (!(await isUnchanged(edit.file, edit.snapshot))) stale.push(toRootRelative(edit.file));
+    }
+    if (stale.length > 0) {
+      throw new StaleFileError(stale);
+    }
+    throwIfCancelled(options.signal, 'no files were changed');
+  } catch (error) {
+    await discardStaged(staged);
+    throw error;
+  }
+
+  // Record every original before the first file is replaced so a crash leaves them recoverable
+  const startIndex = changeset.files.length;
+  for (const { edit, original, modified } of staged) {
+    let backup: string | null = null;
+    if (options.backup) {
+      backup = `${changeset.files.length}.orig`;
+      await fs.mkdir(changesetDir(changeset.id), { recursive: true });
+      await fs.writeFile(path.join(changesetDir(changeset.id), backup), original);
+    }
+    changeset.files.push({
+      path: path.resolve(edit.file),
+      originalHash: hashContent(original),
+      newHash: hashContent(modified),
+      backup,
+    });
+  }
+  await saveChangeset(changeset);
+
+  try {
+    await renameStaged(staged);
+  } catch (error) {
+    if (!(error instanceof BatchWriteError)) throw error;
+    if (error.unrestored.length > 0) {
+      // Keep the changeset so the remaining files can be restored with undo_changeset
+      throw new Error(`Writing the edits failed (${error.reason}) and ${error.unrestored.length} file(s) could not be restored: ${error.unrestored.join(', ')}; see changeset ${changeset.id}`);
+    }
+    changeset.files.splice(startIndex);
+    if (changeset.files.length === 0) {
+      await fs.rm(changesetDir(changeset.id), { recursive: true, force: true });
+    } else {
+      await saveChangeset(changeset);
+    }
+    throw new Error(`Writing the edits failed (${error.reason}); all ${error.replaced} file(s) already written were restored`);
+  }
+}
+
+// Load a changeset manifest by id
+export async function loadChangeset(id: string): Promise<Changeset> {
+  try {
+    const content = await fs.readFile(path.join(changesetDir(id), MANIFEST_FILE), 'utf-8');
+    return JSON.parse(content) as Changeset;
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw new McpError(ErrorCode.InvalidParams, `Changeset not found: ${id}`);
+  }
+}
+
+// List recorded changesets, newest first
+export async function listChangesets(): Promise<Changeset[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(getJournalDir());
+  } catch {
+    return [];
+  }
+
+  const changesets: Changeset[] = [];
+  for (const entry of entries) {
+    try {
+      changesets.push(await loadChangeset(entry));
+    } catch {
+      // Skip directories that are not changesets
+    }
+  }
+
+  return changesets.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Restore the original content of every file in a changeset, all or nothing: the originals are
+// staged next to their files first and renamed into place like the edits of applyEdits.
+// Files changed after the changeset are reported as conflicts and nothing is restored unless forced.
+export async function undoChangeset(id: string, force: boolean = false): Promise<UndoReport> {
+  const changeset = await loadChangeset(id);
+  if (changeset.undoneAt) {
+    throw new McpError(ErrorCode.InvalidParams, `Changeset ${id} was already undone at ${changeset.undoneAt}`);
+  }
+
+  const report: UndoReport = { restored: [], conflicts: [], missingBackups: [] };
+
+  for (const file of changeset.files) {
+    if (!file.backup) {
+      report.missingBackups.push(file.path);
+      continue;
+    }
+
+    let currentHash: string | null = null;
+    try {
+      currentHash = hashContent(await fs.readFile(file.path));
+    } catch {
+      // A deleted file counts as changed after the changeset
+    }
+    if (currentHash !== file.newHash) {
+      report.conflicts.push(file.path);
+    }
+  }
+
+  if (report.missingBackups.length > 0 || (report.conflicts.length > 0 && !force)) {
+    return report;
+  }
+
+  const staged: StagedWrite[] = [];
+  try {
+    for (const file of changeset.files) {
+      // Deleted files are recreated, so check the directory they are restored into
+      const exists = await fs.access(file.path).then(() => true, () => false);
+      await assertInsideRoots(exists ? file.path : path.dirname(file.path));
+
+      const original = await fs.readFile(path.join(changesetDir(id), file.backup!));
+      if (hashContent(original) !== file.originalHash) {
+        throw new Error(`Stored original for ${file.path} does not match its recorded hash`);
+      }
+      const target = exists ? await fs.realpath(file.path) : file.path;
+      const entry: StagedWrite = {
+        file: file.path,
+        target,
+        previous: exists ? await fs.readFile(target) : null,
+        mode: exists ? (await fs.stat(target)).mode & 0o7777 : undefined,
+      };
+      staged.push(entry);
+      entry.temporary = await writeTemporary(target, original, entry.mode);
+    }
+  } catch (error) {
+    await discardStaged(staged);
+    throw error;
+  }
+
+  try {
+    await renameStaged(staged);
+  } catch (error) {
+    if (!(error instanceof BatchWriteError)) throw error;
+    if (error.unrestored.length > 0) {
+      throw new Error(`Undo failed (${error.reason}) and ${error.unrestored.length} file(s) could not be put back as they were: ${error.unrestored.join(', ')}`);
+    }
+    throw new Error(`Undo failed (${error.reason}); no files were changed`);
+  }
+  report.restored.push(...changeset.files.map(file => file.path));
+
+  changeset.undoneAt = new Date().toISOString();
+  await saveChangeset(changeset);
+  return report;
+}
+
+// Remove old changesets from the journal
+export async function pruneChangesets(options: {
+  olderThanDays: number;
+  keepLatest: number;
+  dryRun: boolean;
+}): Promise<Changeset[]> {
+  const changesets = await listChangesets();
+  const cutoff = Date.now() - options.olderThanDays * 24 * 60 * 60 * 1000;
+
+  const pruned = changesets
+    .slice(options.keepLatest)
+    .filter(changeset => Date.parse(changeset.createdAt) < cutoff);
+
+  if (!options.dryRun) {
+    for (const changeset of pruned) {
+      await fs.rm(changesetDir(changeset.id), { recursive: true, force: true });
+    }
+  }
+  return pruned;
+}
+
+// Backup files written next to sources by earlier versions (file.backup-<timestamp>)
+const LEGACY_BACKUP_PATTERN = /\.backup-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/;
+
+// Find legacy backup files below a directory
+export async function findLegacyBackups(dir: string): Promise<string[]> {
+  const found: string[] = [];
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return found;
+  }
+
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name === 'node_modules' || entry.name === '.git') continue;
+      found.push(...await findLegacyBackups(entryPath));
+    } else if (entry.isFile() && LEGACY_BACKUP_PATTERN.test(entry.name)) {
+      found.push(entryPath);
+    }
+  }
+  return found;
+}
@@ -0,0 +1,126 @@
+import { LineEnding, matchLineEnding } from "./encoding.js";
+import { hashContent } from "./journal.js";
+
+// One regex match found while replacing, with the text it would be replaced by
+export interface ReplaceMatch {
+  id: string;
+  line: number;
+  column: number;
+  // Position of the last matched character; differs from line for matches spanning lines
+  endLine: number;
+  endColumn: number;
+  offset: number;
+  match: string;
+  replacement: string;
+}
+
+// Helper function to expand `$1`, `$<name>`, `$&`, `` $` ``, `$'` and `$$` like String.prototype.replace
+function expandReplacement(template: string, match: RegExpExecArray, input: string): string {
+  return template.replace(/\$(\$|&|`|'|<([^>]*)>|\d{1,2})/g, (token, ref: string, name: string | undefined) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match[0];
+    if (ref === '`') return input.slice(0, match.index);
+    if (ref === "'") return input.slice(match.index + match[0].length);
+    if (name !== undefined) {
+      return match.groups ? match.groups[name] ?? '' : token;
+    }
+    // Prefer a two-digit group reference when that group exists, as replace() does
+    let group = Number(ref);
+    if (ref.length === 2 && (group === 0 || group >= match.length)) {
+      group = Number(ref[0]);
+      if (group === 0 || group >= match.length) return token;
+      return (match[group] ?? '') + ref[1];
+    }
+    if (group === 0 || group >= match.length) return token;
+    return match[group] ?? '';
+  });
+}
+
+// Build the stable id of a match: `<file>:<line>:<column>:<hash of the matched text>`
+export function buildMatchId(displayPath: string, line: number, column: number, matchText: string): string {
+  return `${displayPath}:${line}:${column}:${hashContent(matchText).slice(0, 8)}`;
+}
+
+// Helper function to find the line and column of the last character of a match
+function matchEnd(line: number, column: number, text: string): { endLine: number; endColumn: number } {
+  const breaks = text.split('\n');
+  if (breaks.length === 1) {
+    return { endLine: line, endColumn: column + Math.max(text.length - 1, 0) };
+  }
+  return { endLine: line + breaks.length - 1, endColumn: Math.max(breaks[breaks.length - 1].length, 1) };
+}
+
+// Result of applying a regex to one file's content
+export interface ReplaceOutcome {
+  modified: string;
+  changes: number;
+  matches: ReplaceMatch[];
+}
+
+// Find every match of a global regex in `content` and build the replaced text.
+// Every match gets a stable id; with `selectedIds` only those matches are replaced.
+// With `literalReplacement`, the replacement is inserted as is instead of expanding `$1`, `$&`, ...
+// Line breaks in the inserted text follow `lineEnding`, so CRLF files stay CRLF.
+export function replaceMatches(
+  content: string,
+  regex: RegExp,
+  replacement: string,
+  options: { displayPath: string; selectedIds?: Set<string>; literalReplacement?: boolean; lineEnding?: LineEnding }
+): ReplaceOutcome {
+  const { displayPath } = options;
+  const matches: ReplaceMatch[] = [];
+  let modified = '';
+  let copiedUpTo = 0;
+  let line = 1;
+  let lineStart = 0;
+  let scannedUpTo = 0;
+
+  let found: RegExpExecArray | null;
+  while ((found = regex.exec(content)) !== null) {
+    // Advance past empty matches the same way replace() does
+    if (found[0].length === 0) {
+      regex.lastIndex++;
+    }
+
+    for (; scannedUpTo < found.index; scannedUpTo++) {
+      if (content.charCodeAt(scannedUpTo) === 10) {
+        line++;
+        lineStart = scannedUpTo + 1;
+      }
+    }
+    const column = found.index - lineStart + 1;
+
+    const entry: ReplaceMatch = {
+      id: buildMatchId(displayPath, line, column, found[0]),
+      line,
+      column,
+      ...matchEnd(line, column, found[0]),
+      offset: found.index,
+      match: found[0],
+      replacement: matchLineEnding(
+        options.literalReplacement ? replacement : expandReplacement(replacement, found, content),
+        options.lineEnding ?? 'mixed'
+      ),
+    };
+    matches.push(entry);
+
+    if (!options.selectedIds || options.selectedIds.has(entry.id)) {
+      modified += content.slice(copiedUpTo, found.index) + entry.replacement;
+      copiedUpTo = found.index + found[0].length;
+    }
+  }
+  modified += content.slice(copiedUpTo);
+
+  const changes = options.selectedIds
+    ? matches.filter(entry => options.selectedIds!.has(entry.id)).length
+    : matches.length;
+  return { modified, changes, matches };
+}
+
+// Check whether any of the regexes matches somewhere in `content`
+export function hasMatch(content: string, regexes: RegExp[]): boolean {
+  return regexes.some(regex => {
+    regex.lastIndex = 0;
+    return regex.test(content);
+  });
+}
@@ -0,0 +1,157 @@
+import crypto from "crypto";
+import path from "path";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { PageInfo, SearchMatch, SearchResult, groupMatches } from "./results.js";
+
+// How long a search result stays available for paging
+const RESULT_TTL_MS = 5 * 60 * 1000;
+// Oldest results are dropped once this many are cached
+const MAX_CACHED_RESULTS = 20;
+
+export const DEFAULT_PAGE_SIZE = 100;
+
+// A complete search result kept in memory so later pages skip ugrep
+interface CachedResult {
+  id: string;
+  createdAt: number;
+  matches: SearchMatch[];
+  duplicatesRemoved: number;
+  truncated: boolean;
+  // Path that was searched; changes below it invalidate the result
+  scope?: string;
+  // No change went unnoticed while the search ran, so repeated queries may be served from here
+  reusable: boolean;
+}
+
+// Results keyed by the query that produced them
+const resultCache = new Map<string, CachedResult>();
+// Bumped on every invalidation so a search can tell whether files changed while it ran
+let changeGeneration = 0;
+
+// Helper function to drop expired results
+function pruneResultCache(now: number): void {
+  for (const [key, entry] of resultCache) {
+    if (now - entry.createdAt > RESULT_TTL_MS) {
+      resultCache.delete(key);
+    }
+  }
+}
+
+// Helper function to build the cache key for a query (tool name plus the exact ugrep argv)
+export function searchCacheKey(tool: string, argv: string[], extra: Record<string, unknown> = {}): string {
+  return crypto.createHash('sha256').update(JSON.stringify([tool, argv, extra])).digest('hex');
+}
+
+// Helper function to encode a cursor; clients must treat it as opaque
+function encodeCursor(id: string, offset: number): string {
+  return Buffer.from(JSON.stringify({ id, offset })).toString('base64url');
+}
+
+// Helper function to decode a cursor produced by encodeCursor
+function decodeCursor(cursor: string): { id: string; offset: number } {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (typeof decoded?.id === 'string' && Number.isInteger(decoded.offset) && decoded.offset >= 0) {
+      return decoded;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new McpError(ErrorCode.InvalidParams, 'Invalid cursor: pass the nextCursor value from a previous page unchanged');
+}
+
+// Remember a freshly computed result under its query key, replacing any older result for the same query
+export function cacheSearchResult(
+  key: string,
+  result: SearchResult,
+  options: { scope?: string; reusable?: boolean } = {}
+): void {
+  const now = Date.now();
+  pruneResultCache(now);
+
+  resultCache.delete(key);
+  resultCache.set(key, {
+    id: crypto.randomBytes(9).toString('base64url'),
+    createdAt: now,
+    matches: result.files.flatMap(group => group.matches),
+    duplicatesRemoved: result.duplicatesRemoved,
+    truncated: !!result.truncated,
+    scope: options.scope,
+    reusable: !!options.reusable,
+  });
+
+  // Map iteration order is insertion order, so the first keys are the oldest
+  while (resultCache.size > MAX_CACHED_RESULTS) {
+    resultCache.delete(resultCache.keys().next().value as string);
+  }
+}
+
+// Whether a result for the query is still cached and can be served again
+export function hasCachedResult(key: string): boolean {
+  pruneResultCache(Date.now());
+  return !!resultCache.get(key)?.reusable;
+}
+
+// Current change generation; compare before and after a search to detect changes during it
+export function getChangeGeneration(): number {
+  return changeGeneration;
+}
+
+// Helper function to check whether one path lies inside (or is) another
+function contains(dir: string, target: string): boolean {
+  return target === dir || target.startsWith(dir + path.sep);
+}
+
+// Drop every cached result whose search path covers one of the changed paths
+export function invalidateSearchResults(paths: string[]): void {
+  changeGeneration++;
+  for (const [key, entry] of resultCache) {
+    const affected = !entry.scope || paths.some(changed => contains(entry.scope!, changed) || contains(changed, entry.scope!));
+    if (affected) {
+      resultCache.delete(key);
+    }
+  }
+}
+
+// Look up the cached result a cursor points into; the cursor must belong to the same query
+export function resolveCursor(key: string, cursor: string): { offset: number } {
+  const { id, offset } = decodeCursor(cursor);
+  pruneResultCache(Date.now());
+
+  const entry = resultCache.get(key);
+  if (!entry || entry.id !== id) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'Cursor has expired, belongs to a different query, or files changed since the search; repeat the search without a cursor'
+    );
+  }
+  return { offset };
+}
+
+// Slice one page out of the cached result for a query
+export function getResultPage(key: string, offset: number, pageSize: number): SearchResult {
+  const entry = resultCache.get(key);
+  if (!entry) {
+    throw new McpError(ErrorCode.InvalidParams, 'Search result is no longer cached; repeat the search without a cursor');
+  }
+
+  // Copies, so context attached to a page never leaks into the cache
+  const matches = entry.matches.slice(offset, offset + pageSize).map(match => ({ ...match }));
+  const nextOffset = offset + matches.length;
+  const result = groupMatches(matches);
+
+  return {
+    ...result,
+    duplicatesRemoved: entry.duplicatesRemoved,
+    truncated: entry.truncated,
+    page: {
+      offset,
+      pageSize,
+      returned: matches.length,
+      totalEstimate: entry.matches.length,
+      totalIsExact: !entry.truncated,
+      nextCursor: nextOffset < entry.matches.length ? encodeCursor(entry.id, nextOffset) : undefined,
+      expiresAt: new Date(entry.createdAt + RESULT_TTL_MS).toISOString(),
+    },
+  };
+}
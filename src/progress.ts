@@ -0,0 +1,55 @@
+// Sends one notifications/progress message for the current request
+export type ProgressSender = (progress: number, total: number | undefined, message: string) => Promise<void>;
+
+// Minimum time between two progress notifications of one request
+const PROGRESS_INTERVAL_MS = 500;
+
+// Error raised when the client cancelled the request; `message` says what was done before stopping
+export class CancelledError extends Error {
+  constructor(state?: string) {
+    super(`Request cancelled${state ? `: ${state}` : ''}`);
+    this.name = 'CancelledError';
+  }
+}
+
+// Reports the progress of one tool call. Without a progress token from the client nothing is sent.
+// Notifications are throttled, and progress keeps increasing across phases as the protocol requires.
+export class ProgressReporter {
+  private lastSent = 0;
+  private lastProgress = 0;
+  // Added to the counts of the current phase
+  private offset = 0;
+
+  constructor(private readonly send?: ProgressSender) {}
+
+  // Start a new phase (e.g. processing after scanning); its counts start after the last value sent
+  startPhase(): void {
+    this.offset = this.lastProgress;
+  }
+
+  report(progress: number, total: number | undefined, message: string): void {
+    if (!this.send) return;
+    const value = this.offset + progress;
+    const now = Date.now();
+    if (value <= this.lastProgress || now - this.lastSent < PROGRESS_INTERVAL_MS) return;
+
+    this.lastSent = now;
+    this.lastProgress = value;
+    this.send(value, total !== undefined ? this.offset + total : undefined, message).catch(error => {
+      console.error("Failed to send progress notification:", error);
+    });
+  }
+}
+
+// Cancellation and progress reporting for one tool call
+export interface ToolContext {
+  signal?: AbortSignal;
+  progress?: ProgressReporter;
+}
+
+// Helper function to stop work between steps once the client cancelled the request
+export function throwIfCancelled(signal: AbortSignal | undefined, state?: string): void {
+  if (signal?.aborted) {
+    throw new CancelledError(state);
+  }
+}
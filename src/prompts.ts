@@ -0,0 +1,216 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+// An argument a prompt accepts; MCP prompt arguments are always strings
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+// A guided workflow announced in prompts/list and expanded by prompts/get
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  // Tools the workflow calls; the prompt is hidden when one of them is not exposed
+  tools: string[];
+  build: (args: Record<string, string>) => string;
+}
+
+export interface PromptMessage {
+  role: "user";
+  content: { type: "text"; text: string };
+}
+
+const LANGUAGES = ['js', 'ts', 'py', 'java', 'cpp'];
+const RENAME_KINDS = ['function', 'class', 'method', 'variable'];
+
+// Helper function to escape text for use inside a regular expression
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+// Helper function to render a tool call the client can copy, leaving out unset arguments
+function toolCall(name: string, args: Record<string, unknown>): string {
+  const defined = Object.fromEntries(Object.entries(args).filter(([, value]) => value !== undefined && value !== ''));
+  return `\`${name}\`\n\`\`\`json\n${JSON.stringify(defined, null, 2)}\n\`\`\``;
+}
+
+// Helper function to check an argument against its allowed values
+function oneOf(args: Record<string, string>, name: string, allowed: string[], fallback?: string): string {
+  const value = args[name] || fallback;
+  if (value === undefined || !allowed.includes(value)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid prompt argument ${name}: expected one of ${allowed.join(', ')}`);
+  }
+  return value;
+}
+
+const renameSymbolPrompt: PromptDefinition = {
+  name: "rename-symbol",
+  description: "Find every usage of a symbol, preview the rename, apply it after confirmation and check nothing is left",
+  arguments: [
+    { name: "oldName", description: "Current name of the symbol", required: true },
+    { name: "newName", description: "New name of the symbol", required: true },
+    { name: "language", description: `Language of the declaring file (${LANGUAGES.join(', ')})`, required: true },
+    { name: "kind", description: `Kind of symbol (${RENAME_KINDS.join(', ')}; default function)` },
+    { name: "path", description: "Project directory to work in (defaults to the workspace root)" },
+    { name: "className", description: "Class or interface declaring the method or property (js/ts)" },
+  ],
+  tools: ['code_structure_search', 'basic_search', 'code_refactor'],
+  build: (args) => {
+    const language = oneOf(args, 'language', LANGUAGES);
+    const kind = oneOf(args, 'kind', RENAME_KINDS, 'function');
+    const word = `\\b${escapeRegex(args.oldName)}\\b`;
+
+    return `Rename the ${kind} \`${args.oldName}\` to \`${args.newName}\`. Work through these steps in order and stop to ask me whenever a step turns up something unexpected.
+
+1. Confirm the declaration exists and is unique:
+${toolCall('code_structure_search', { structureType: kind, name: `^${escapeRegex(args.oldName)}$`, language, path: args.path })}
+   If there is no match, stop. If there are several, ask me which one is meant${language === 'js' || language === 'ts' ? ' (for methods, narrow it down with className)' : ''}.
+
+2. List every textual usage, including comments and strings that the rename may not touch:
+${toolCall('basic_search', { pattern: word, path: args.path, caseSensitive: true })}
+   Also check that \`${args.newName}\` is not already in use:
+${toolCall('basic_search', { pattern: `\\b${escapeRegex(args.newName)}\\b`, path: args.path, caseSensitive: true })}
+
+3. Preview the rename. This is a dry run and changes nothing:
+${toolCall('code_refactor', { structureType: kind, oldPattern: args.oldName, newPattern: args.newName, language, path: args.path, className: args.className, dryRun: true })}
+   Review the diff. If the result reports conflicts, stop and show them to me.
+
+4. Show me a short summary (files and number of changes) and wait for my confirmation. Only then repeat the code_refactor call with \`"dryRun": false\`. Note the changeset ID it reports; \`undo_changeset\` restores every file if needed.
+
+5. Verify by repeating the search from step 2. Report every remaining match of \`${args.oldName}\` and whether it is intentional (e.g. unrelated symbols, changelog entries) or was missed.`;
+  },
+};
+
+const findDeadCodePrompt: PromptDefinition = {
+  name: "find-dead-code",
+  description: "List declarations that are never referenced elsewhere in the project (read-only)",
+  arguments: [
+    { name: "language", description: `Language to analyse (${LANGUAGES.join(', ')})`, required: true },
+    { name: "kind", description: "Kind of declaration (function, class, method, variable; default function)" },
+    { name: "path", description: "Project directory to analyse (defaults to the workspace root)" },
+  ],
+  tools: ['code_structure_search', 'basic_search'],
+  build: (args) => {
+    const language = oneOf(args, 'language', LANGUAGES);
+    const kind = oneOf(args, 'kind', RENAME_KINDS, 'function');
+
+    return `Find ${kind} declarations in ${language} code that are never used. This is a read-only review: do not edit, rename or delete anything.
+
+1. List the declarations:
+${toolCall('code_structure_search', { structureType: kind, language, path: args.path, maxResults: 500 })}
+
+2. For each declaration name, count its references across all file types (callers may live in other languages, templates or config):
+${toolCall('basic_search', { pattern: '\\bNAME\\b', path: args.path, caseSensitive: true, maxResults: 5 })}
+   Replace NAME with the declaration name, escaping regex characters. A name whose only match is its own declaration is a candidate.
+
+3. Drop candidates that are likely used indirectly: entry points and framework hooks (main, handlers, lifecycle methods, decorated or annotated members), public package exports, names built dynamically (string lookups, reflection, getattr), overrides of inherited members and test fixtures.
+
+4. Report the remaining candidates as a table with file, line, name, whether it is exported, and how confident you are that it is unused. Suggest, but do not apply, a removal order.`;
+  },
+};
+
+const auditSecretsPrompt: PromptDefinition = {
+  name: "audit-secrets",
+  description: "Scan the working tree and recent git history for hard-coded credentials (read-only)",
+  arguments: [
+    { name: "path", description: "Directory to audit (defaults to the workspace root)" },
+    { name: "fileTypes", description: "Comma-separated file types to limit the scan to (e.g. 'js,py,yaml')" },
+  ],
+  tools: ['basic_search', 'search_history'],
+  build: (args) => {
+    const search = (pattern: string) => toolCall('basic_search', { pattern, path: args.path, fileTypes: args.fileTypes, caseSensitive: true });
+
+    return `Audit the code for hard-coded secrets. This is a read-only review: do not edit any file, and never repeat a full secret value in your answer (show at most the first 4 characters).
+
+1. Search the working tree for well-known credential formats:
+   - Private keys:
+${search('-----BEGIN [A-Z ]*PRIVATE KEY-----')}
+   - AWS access key IDs:
+${search('AKIA[0-9A-Z]{16}')}
+   - GitHub and Slack tokens:
+${search('gh[pousr]_[A-Za-z0-9]{36}|xox[abprs]-[A-Za-z0-9-]{10,}')}
+   - JSON Web Tokens:
+${search('eyJ[A-Za-z0-9_-]{10,}\\.[A-Za-z0-9_-]{10,}\\.')}
+
+2. Search for secrets assigned to suspicious names (case-insensitive):
+${toolCall('basic_search', { pattern: `(api[_-]?key|secret|token|passw(or)?d|credential)s?['"]?\\s*[:=]\\s*['"][^'"\\s]{8,}['"]`, path: args.path, fileTypes: args.fileTypes, caseSensitive: false })}
+   Ignore obvious placeholders (e.g. "changeme", "xxx", "<your-key>", values read from environment variables) and test fixtures, but mention fixtures that look like real keys.
+
+3. Check whether keys were committed and later removed:
+${toolCall('search_history', { pattern: '-----BEGIN [A-Z ]*PRIVATE KEY-----|AKIA[0-9A-Z]{16}', path: args.path, maxCommits: 200 })}
+
+4. Open the surrounding lines of each finding through its resource URI when the match line alone is not conclusive.
+
+5. Report the findings grouped by severity (live credential, likely credential, placeholder) with file, line and the kind of secret. For every live or likely credential, recommend rotating it and moving it to the environment or a secret store; a secret found in history must be rotated even if the current tree is clean.`;
+  },
+};
+
+const migrateImportPrompt: PromptDefinition = {
+  name: "migrate-import",
+  description: "Move every import of one module to another, previewing the change before it is applied",
+  arguments: [
+    { name: "from", description: "Module imported today (e.g. 'lodash' or 'utils.old_helpers')", required: true },
+    { name: "to", description: "Module to import instead", required: true },
+    { name: "language", description: "Language of the importing files (js, ts, py)", required: true },
+    { name: "path", description: "Project directory to migrate (defaults to the workspace root)" },
+  ],
+  tools: ['code_structure_search', 'basic_search', 'code_refactor', 'search_and_replace'],
+  build: (args) => {
+    const language = oneOf(args, 'language', ['js', 'ts', 'py']);
+    const module = escapeRegex(args.from);
+
+    return `Migrate every import of \`${args.from}\` to \`${args.to}\` in ${language} files. Stop to ask me whenever a step turns up something unexpected.
+
+1. List the files that import the module:
+${toolCall('code_structure_search', { structureType: 'import', name: `^${module}$`, language, path: args.path })}
+   If there are none, stop. Check that \`${args.to}\` provides every name these files import; list any that it lacks and ask me how to proceed.
+
+2. Preview the migration of import statements. This is a dry run and changes nothing:
+${toolCall('code_refactor', { structureType: 'import', oldPattern: module, newPattern: args.to, language, path: args.path, dryRun: true })}
+
+3. Find references the import rewrite does not cover${language === 'py' ? ' (\`from ... import\` forms, \`importlib\` calls, mock.patch targets)' : ' (\`require()\`, dynamic \`import()\`, side-effect imports, jest.mock and similar)'}:
+${toolCall('basic_search', { pattern: language === 'py' ? `\\b${module}\\b` : `['"]${module}['"]`, path: args.path, fileTypes: language, caseSensitive: true })}
+   For each remaining form, preview a literal replacement of the exact text:
+${toolCall('search_and_replace', { pattern: 'EXACT OLD TEXT', replacement: 'EXACT NEW TEXT', path: args.path, fileTypes: language, literal: true, caseSensitive: true, dryRun: true })}
+
+4. Show me a summary of all previewed changes and wait for my confirmation. Only then repeat the calls with \`"dryRun": false\` and note the changeset IDs; \`undo_changeset\` restores the files if needed.
+
+5. Verify by repeating the searches from steps 1 and 3; report any remaining reference to \`${args.from}\`.`;
+  },
+};
+
+export const PROMPTS: PromptDefinition[] = [renameSymbolPrompt, findDeadCodePrompt, auditSecretsPrompt, migrateImportPrompt];
+
+// Helper function to keep the prompts whose tools are all exposed (e.g. none that edit in read-only mode)
+function availablePrompts(isToolAvailable: (name: string) => boolean): PromptDefinition[] {
+  return PROMPTS.filter(prompt => prompt.tools.every(isToolAvailable));
+}
+
+// Prompts as announced in prompts/list
+export function listPrompts(isToolAvailable: (name: string) => boolean = () => true): Array<Omit<PromptDefinition, 'build' | 'tools'>> {
+  return availablePrompts(isToolAvailable).map(({ build, tools, ...prompt }) => prompt);
+}
+
+// Expand a prompt with its arguments into the messages returned by prompts/get
+export function getPrompt(
+  name: string,
+  args: Record<string, string> = {},
+  isToolAvailable: (name: string) => boolean = () => true
+): { description: string; messages: PromptMessage[] } {
+  const prompt = availablePrompts(isToolAvailable).find(candidate => candidate.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const missing = prompt.arguments.filter(argument => argument.required && !args[argument.name]?.trim());
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing prompt argument(s) for ${name}: ${missing.map(argument => argument.name).join(', ')}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{ role: "user", content: { type: "text", text: prompt.build(args) } }],
+  };
+}
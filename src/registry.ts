@@ -0,0 +1,169 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { ToolContext } from "./progress.js";
+import { resolveWorkspacePath } from "./sandbox.js";
+
+// Content returned by every tool handler
+export interface ToolResult {
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+  [key: string]: unknown;
+}
+
+// Arguments as seen by a handler: validated, defaulted and with `path` confined to the workspace
+export type ToolArgs<S extends z.ZodTypeAny> = z.infer<S> & { path: string };
+
+// A tool declares its Zod schema once; it is used for both tools/list and validation
+export interface ToolDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  schema: S;
+  // Changes files on disk; hidden in read-only mode
+  writesFiles?: boolean;
+  handler: (args: ToolArgs<S>, context: ToolContext) => Promise<ToolResult>;
+}
+
+// Operator settings applied to the registered tools (see config.ts)
+export interface RegistryOptions {
+  // Argument defaults for every tool that has the argument
+  defaults: Record<string, unknown>;
+  // Argument defaults for single tools, winning over `defaults`
+  toolDefaults: Record<string, Record<string, unknown>>;
+  // Only expose these tools
+  include?: string[];
+  exclude: string[];
+  readOnly: boolean;
+}
+
+// A registered tool with its schema type erased. The registry only calls the handler with arguments
+// parsed by the tool's own schema, the pairing defineTool checked.
+interface RegisteredTool extends Omit<ToolDefinition, 'handler'> {
+  handler: (args: ToolArgs<z.ZodTypeAny>, context: ToolContext) => Promise<ToolResult>;
+}
+
+// Helper function to keep the schema and handler types tied together
+export function defineTool<S extends z.ZodTypeAny>(definition: ToolDefinition<S>): ToolDefinition<S> {
+  return definition;
+}
+
+// Helper function to convert a Zod schema into the JSON Schema published in tools/list
+export function toJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, {
+    target: "jsonSchema7",
+    $refStrategy: "none",
+  }) as Record<string, unknown>;
+  return jsonSchema;
+}
+
+// Helper function to describe every failing field of a Zod validation error
+function formatValidationIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(arguments)'}: ${issue.message}`)
+    .join('; ');
+}
+
+// Helper function to publish configured defaults in a tool's JSON Schema
+function withDefaults(jsonSchema: Record<string, unknown>, defaults: Record<string, unknown> | undefined): Record<string, unknown> {
+  if (!defaults) return jsonSchema;
+  const properties = { ...(jsonSchema.properties as Record<string, Record<string, unknown>>) };
+  for (const [key, value] of Object.entries(defaults)) {
+    properties[key] = { ...properties[key], default: value };
+  }
+  return { ...jsonSchema, properties };
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, RegisteredTool>();
+  // Tools left out of tools/list and refused when called
+  private disabled = new Set<string>();
+  // Configured argument defaults by tool name
+  private defaults = new Map<string, Record<string, unknown>>();
+
+  register(...definitions: RegisteredTool[]): this {
+    for (const definition of definitions) {
+      if (this.tools.has(definition.name)) {
+        throw new Error(`Tool already registered: ${definition.name}`);
+      }
+      this.tools.set(definition.name, definition);
+    }
+    return this;
+  }
+
+  // Apply argument defaults and choose the exposed tools. Unknown tool or argument names and
+  // defaults a tool would reject throw, so a broken configuration stops the server at startup.
+  configure(options: RegistryOptions): this {
+    const names = [...(options.include ?? []), ...options.exclude, ...Object.keys(options.toolDefaults)];
+    const unknown = names.filter(name => !this.tools.has(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown tool(s) in configuration: ${[...new Set(unknown)].join(', ')}`);
+    }
+
+    this.disabled.clear();
+    this.defaults.clear();
+    for (const tool of this.tools.values()) {
+      const hidden = (options.include && !options.include.includes(tool.name))
+        || options.exclude.includes(tool.name)
+        || (options.readOnly && tool.writesFiles);
+      if (hidden) this.disabled.add(tool.name);
+
+      const shape: Record<string, z.ZodTypeAny> = tool.schema instanceof z.ZodObject ? tool.schema.shape : {};
+      const own = options.toolDefaults[tool.name] ?? {};
+      for (const key of Object.keys(own).filter(key => !(key in shape))) {
+        throw new Error(`Tool ${tool.name} has no argument ${key} (in toolDefaults)`);
+      }
+      const defaults: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries({ ...options.defaults, ...own })) {
+        if (!(key in shape)) continue;
+        const parsed = shape[key].safeParse(value);
+        if (!parsed.success) {
+          throw new Error(`Invalid default for ${key} of ${tool.name}: ${parsed.error.issues.map(issue => issue.message).join("; ")}`);
+        }
+        defaults[key] = value;
+      }
+      if (Object.keys(defaults).length > 0) this.defaults.set(tool.name, defaults);
+    }
+    return this;
+  }
+
+  // Whether a tool is registered and exposed
+  has(name: string): boolean {
+    return this.tools.has(name) && !this.disabled.has(name);
+  }
+
+  // Tool descriptors for tools/list, optionally restricted to some names
+  list(names?: string[]) {
+    return [...this.tools.values()]
+      .filter(tool => !this.disabled.has(tool.name) && (!names || names.includes(tool.name)))
+      .map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: withDefaults(toJsonSchema(tool.schema), this.defaults.get(tool.name)),
+      }));
+  }
+
+  // Validate and default the raw arguments, then run the handler
+  async call(name: string, rawArgs: unknown, context: ToolContext = {}): Promise<ToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool || this.disabled.has(name)) {
+      throw new McpError(ErrorCode.MethodNotFound, `Tool not found: ${name}`);
+    }
+
+    // Configured defaults fill in what the caller left out
+    const defaults = this.defaults.get(name);
+    const withConfigured = defaults && rawArgs !== null && typeof rawArgs === 'object' && !Array.isArray(rawArgs)
+      ? { ...defaults, ...rawArgs }
+      : rawArgs;
+    const parsed = tool.schema.safeParse(withConfigured ?? defaults ?? {});
+    if (!parsed.success) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid arguments for tool ${name}: ${formatValidationIssues(parsed.error)}`
+      );
+    }
+
+    // Confine the path argument to the workspace roots before the tool runs
+    const args = { ...parsed.data, path: await resolveWorkspacePath(parsed.data.path) };
+    return tool.handler(args, context);
+  }
+}
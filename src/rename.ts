@@ -0,0 +1,388 @@
+import ts from "typescript";
+import path from "path";
+import fs from "fs/promises";
+import { FileEncoding, UnsupportedFileError, decodeText } from "./encoding.js";
+import { FileSnapshot, readFileSnapshot } from "./journal.js";
+import { toRootRelative } from "./sandbox.js";
+import { FileFilter } from "./ignore.js";
+import { collectSourceFiles } from "./structure/index.js";
+
+// Declarations code_refactor can rename with the TypeScript language service
+export type RenameKind = 'function' | 'class' | 'method' | 'variable';
+
+// A declaration of the symbol being renamed
+export interface RenameTarget {
+  file: string;
+  line: number;
+  name: string;
+  enclosingClass?: string;
+}
+
+// A reason the rename cannot be applied safely
+export interface RenameConflict {
+  file: string;
+  line: number;
+  message: string;
+}
+
+// The new content of one file touched by the rename
+export interface RenameFileEdit {
+  file: string;
+  original: string;
+  modified: string;
+  changes: number;
+  // How the file is stored, so it is written back the same way
+  encoding: FileEncoding;
+  snapshot: FileSnapshot;
+}
+
+export interface RenamePlan {
+  targets: RenameTarget[];
+  edits: RenameFileEdit[];
+  conflicts: RenameConflict[];
+}
+
+// Compiler options used when the project has no tsconfig.json
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  allowJs: true,
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.NodeNext,
+  moduleResolution: ts.ModuleResolutionKind.NodeNext,
+  jsx: ts.JsxEmit.Preserve,
+};
+
+// Helper function to check that a new name is a usable identifier (not a reserved word)
+export function isValidIdentifier(name: string): boolean {
+  if (name.length === 0) return false;
+  for (let i = 0; i < name.length; i++) {
+    const code = name.codePointAt(i)!;
+    const valid = i === 0
+      ? ts.isIdentifierStart(code, ts.ScriptTarget.Latest)
+      : ts.isIdentifierPart(code, ts.ScriptTarget.Latest);
+    if (!valid) return false;
+    if (code > 0xffff) i++;
+  }
+  const scanner = ts.createScanner(ts.ScriptTarget.Latest, true, ts.LanguageVariant.Standard, name);
+  const token = scanner.scan();
+  return !(token >= ts.SyntaxKind.FirstReservedWord && token <= ts.SyntaxKind.LastFutureReservedWord);
+}
+
+// Helper function to load compiler options from a tsconfig.json at the top of the project
+async function loadCompilerOptions(projectDir: string): Promise<ts.CompilerOptions> {
+  const configPath = path.join(projectDir, 'tsconfig.json');
+  const exists = await fs.access(configPath).then(() => true, () => false);
+  if (!exists) {
+    return DEFAULT_COMPILER_OPTIONS;
+  }
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error) {
+    return DEFAULT_COMPILER_OPTIONS;
+  }
+  const parsed = ts.parseJsonConfigFileContent(config, ts.sys, projectDir);
+  return { ...parsed.options, allowJs: true, noEmit: true };
+}
+
+// Helper function to tell whether a declaration lives inside a function body
+function isInsideFunction(node: ts.Node): boolean {
+  return !!ts.findAncestor(node.parent, ancestor => ts.isFunctionLike(ancestor) && !ts.isClassLike(ancestor));
+}
+
+// Helper function to find the declarations of `name` that match the requested kind
+function findTargetDeclarations(
+  sourceFile: ts.SourceFile,
+  name: string,
+  kind: RenameKind,
+  className: string | undefined
+): ts.Identifier[] {
+  const found: ts.Identifier[] = [];
+
+  const ownerName = (node: ts.Node) => {
+    const owner = node.parent;
+    return (ts.isClassLike(owner) || ts.isInterfaceDeclaration(owner)) ? owner.name?.text : undefined;
+  };
+  const isMember = (node: ts.Node) =>
+    ts.isClassLike(node.parent) || ts.isInterfaceDeclaration(node.parent) || ts.isTypeLiteralNode(node.parent);
+  const isFunctionValue = (node: ts.Expression | undefined) =>
+    !!node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+
+  const visit = (node: ts.Node) => {
+    const declarationName = (node as ts.NamedDeclaration).name;
+    if (declarationName && ts.isIdentifier(declarationName) && declarationName.text === name) {
+      let matches = false;
+      switch (kind) {
+        case 'function':
+          matches = ts.isFunctionDeclaration(node) ||
+            (ts.isVariableDeclaration(node) && isFunctionValue(node.initializer));
+          break;
+        case 'class':
+          matches = ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node);
+          break;
+        case 'method':
+          matches = (ts.isMethodDeclaration(node) || ts.isMethodSignature(node) ||
+            ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node) ||
+            (ts.isPropertyDeclaration(node) && isFunctionValue(node.initializer))) &&
+            (!className || ownerName(node) === className);
+          break;
+        case 'variable':
+          matches = (ts.isVariableDeclaration(node) && !isFunctionValue(node.initializer) && !isInsideFunction(node)) ||
+            ((ts.isPropertyDeclaration(node) || ts.isPropertySignature(node)) && isMember(node) &&
+              (!className || ownerName(node) === className));
+          break;
+      }
+      if (matches) found.push(declarationName);
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return found;
+}
+
+// Helper function to find the innermost node that introduces a scope
+function scopeContainer(node: ts.Node): ts.Node {
+  return ts.findAncestor(node.parent, ancestor =>
+    ts.isSourceFile(ancestor) || ts.isBlock(ancestor) || ts.isModuleBlock(ancestor) ||
+    ts.isCaseBlock(ancestor) || ts.isFunctionLike(ancestor) ||
+    ts.isForStatement(ancestor) || ts.isForInStatement(ancestor) || ts.isForOfStatement(ancestor)
+  ) ?? node.getSourceFile();
+}
+
+// Helper function to find the identifier starting at a position
+function identifierAt(sourceFile: ts.SourceFile, position: number): ts.Identifier | undefined {
+  let found: ts.Identifier | undefined;
+  const visit = (node: ts.Node) => {
+    if (found || position < node.getFullStart() || position >= node.getEnd()) return;
+    if (ts.isIdentifier(node) && node.getStart(sourceFile) === position) {
+      found = node;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return found;
+}
+
+// Helper function to collect the identifiers with a given text below a node
+function identifiersNamed(root: ts.Node, name: string): ts.Identifier[] {
+  const found: ts.Identifier[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node) && node.text === name) found.push(node);
+    ts.forEachChild(node, visit);
+  };
+  visit(root);
+  return found;
+}
+
+// Plan a scope-aware rename of a js/ts symbol across the files below `projectPath`.
+// Nothing is written; the plan lists the edited files and any conflicts that make the rename unsafe.
+export async function planRename(
+  projectPath: string,
+  options: { oldName: string; newName: string; kind: RenameKind; className?: string; fileFilter?: FileFilter }
+): Promise<RenamePlan> {
+  const plan: RenamePlan = { targets: [], edits: [], conflicts: [] };
+  const { oldName, newName } = options;
+
+  const files = [...new Set([
+    ...await collectSourceFiles(projectPath, 'ts', options.fileFilter),
+    ...await collectSourceFiles(projectPath, 'js', options.fileFilter),
+  ])].sort();
+  const contents = new Map<string, string>();
+  const sources = new Map<string, { encoding: FileEncoding; snapshot: FileSnapshot }>();
+  // Files that cannot be rewritten safely (binary or an unknown encoding), with the reason
+  const unwritable = new Map<string, string>();
+  for (const file of files) {
+    try {
+      const { bytes, snapshot } = await readFileSnapshot(file);
+      const decoded = decodeText(bytes, toRootRelative(file));
+      contents.set(file, decoded.text);
+      sources.set(file, { encoding: decoded.encoding, snapshot });
+    } catch (error) {
+      if (!(error instanceof UnsupportedFileError)) throw error;
+      unwritable.set(file, error.reason);
+    }
+  }
+
+  const projectDir = (await fs.stat(projectPath)).isDirectory() ? projectPath : path.dirname(projectPath);
+  const compilerOptions = await loadCompilerOptions(projectDir);
+  const host: ts.LanguageServiceHost = {
+    getScriptFileNames: () => files,
+    getScriptVersion: () => '1',
+    getScriptSnapshot: fileName => {
+      const text = contents.get(fileName) ?? ts.sys.readFile(fileName);
+      return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+    },
+    getCurrentDirectory: () => projectDir,
+    getCompilationSettings: () => compilerOptions,
+    getDefaultLibFileName: ts.getDefaultLibFilePath,
+    fileExists: ts.sys.fileExists,
+    readFile: ts.sys.readFile,
+    readDirectory: ts.sys.readDirectory,
+    directoryExists: ts.sys.directoryExists,
+    getDirectories: ts.sys.getDirectories,
+  };
+  const service = ts.createLanguageService(host, ts.createDocumentRegistry());
+  const program = service.getProgram()!;
+  const checker = program.getTypeChecker();
+
+  const lineOf = (sourceFile: ts.SourceFile, position: number) =>
+    sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+  const declarationLine = (declaration: ts.Declaration) =>
+    `${toRootRelative(declaration.getSourceFile().fileName)}:${lineOf(declaration.getSourceFile(), declaration.getStart())}`;
+  const conflict = (sourceFile: ts.SourceFile, position: number, message: string) => {
+    if (!plan.conflicts.some(existing => existing.file === sourceFile.fileName && existing.message === message)) {
+      plan.conflicts.push({ file: sourceFile.fileName, line: lineOf(sourceFile, position), message });
+    }
+  };
+
+  if (!isValidIdentifier(newName)) {
+    plan.conflicts.push({ file: projectPath, line: 0, message: `\`${newName}\` is not a valid identifier` });
+    return plan;
+  }
+
+  // Locate the declarations to rename
+  const targetNames: ts.Identifier[] = [];
+  for (const file of files) {
+    const sourceFile = program.getSourceFile(file);
+    if (!sourceFile) continue;
+    for (const name of findTargetDeclarations(sourceFile, oldName, options.kind, options.className)) {
+      targetNames.push(name);
+      const owner = name.parent.parent;
+      plan.targets.push({
+        file,
+        line: lineOf(sourceFile, name.getStart(sourceFile)),
+        name: oldName,
+        enclosingClass: (ts.isClassLike(owner) || ts.isInterfaceDeclaration(owner)) ? owner.name?.text : undefined,
+      });
+    }
+  }
+  if (targetNames.length === 0) {
+    return plan;
+  }
+
+  const targetSymbols = new Set<ts.Symbol>();
+  for (const name of targetNames) {
+    const symbol = checker.getSymbolAtLocation(name);
+    if (symbol) targetSymbols.add(symbol);
+  }
+  const isTarget = (symbol: ts.Symbol | undefined): boolean => {
+    if (!symbol) return false;
+    if (targetSymbols.has(symbol)) return true;
+    return !!(symbol.flags & ts.SymbolFlags.Alias) && targetSymbols.has(checker.getAliasedSymbol(symbol));
+  };
+  const renamesMember = options.kind === 'method' ||
+    targetNames.some(name => ts.isClassElement(name.parent) || ts.isTypeElement(name.parent));
+
+  // Collect every reference through the language service
+  const locations = new Map<string, { fileName: string; start: number; length: number }>();
+  for (const name of targetNames) {
+    const sourceFile = name.getSourceFile();
+    const position = name.getStart(sourceFile);
+    const info = service.getRenameInfo(sourceFile.fileName, position, { allowRenameOfImportPath: false });
+    if (!info.canRename) {
+      conflict(sourceFile, position, info.localizedErrorMessage);
+      continue;
+    }
+    for (const location of service.findRenameLocations(sourceFile.fileName, position, false, false, { providePrefixAndSuffixTextForRename: false }) ?? []) {
+      locations.set(`${location.fileName}:${location.textSpan.start}`, {
+        fileName: location.fileName,
+        start: location.textSpan.start,
+        length: location.textSpan.length,
+      });
+    }
+  }
+
+  // Check every reference site for an existing binding of the new name
+  const scopeCache = new Map<ts.Node, ts.Symbol | undefined>();
+  const edits = new Map<string, Array<{ start: number; length: number; text: string }>>();
+
+  for (const location of locations.values()) {
+    if (!contents.has(location.fileName)) {
+      const sourceFile = program.getSourceFile(location.fileName);
+      plan.conflicts.push({
+        file: location.fileName,
+        line: sourceFile ? lineOf(sourceFile, location.start) : 0,
+        message: unwritable.has(location.fileName)
+          ? `Reference is in a file that cannot be rewritten (${unwritable.get(location.fileName)}) and would not be updated`
+          : `Reference is outside the project path or in an ignored file and would not be updated`,
+      });
+      continue;
+    }
+    const sourceFile = program.getSourceFile(location.fileName)!;
+    const node = identifierAt(sourceFile, location.start);
+    let text = newName;
+
+    if (node) {
+      const parent = node.parent;
+      if (renamesMember) {
+        // Accessing the member through a type that already has the new name
+        if (ts.isPropertyAccessExpression(parent) && parent.name === node) {
+          const existing = checker.getTypeAtLocation(parent.expression).getProperty(newName);
+          if (existing) {
+            conflict(sourceFile, location.start, `\`${parent.expression.getText(sourceFile)}\` already has a member named \`${newName}\``);
+          }
+        }
+        if ((ts.isClassElement(parent) || ts.isTypeElement(parent)) && parent.name === node) {
+          const ownerType = checker.getTypeAtLocation(parent.parent);
+          const existing = ownerType.getProperty(newName);
+          if (existing) {
+            const where = existing.declarations?.[0] ? ` (${declarationLine(existing.declarations[0])})` : '';
+            conflict(sourceFile, location.start, `\`${newName}\` is already a member of this type${where}`);
+          }
+        }
+      } else {
+        const container = scopeContainer(node);
+        if (!scopeCache.has(container)) {
+          const meaning = ts.SymbolFlags.Value | ts.SymbolFlags.Type | ts.SymbolFlags.Namespace | ts.SymbolFlags.Alias;
+          scopeCache.set(container, checker.getSymbolsInScope(node, meaning).find(symbol => symbol.name === newName));
+        }
+        const existing = scopeCache.get(container);
+        if (existing && !isTarget(existing)) {
+          const declaration = existing.declarations?.[0];
+          const where = declaration ? `declared at ${declarationLine(declaration)}` : 'a global';
+          conflict(sourceFile, location.start, `\`${newName}\` is already in scope here (${where}); the rename would collide with or shadow it`);
+        }
+      }
+
+      // Keep the property name of shorthand object literals: `{ foo }` becomes `{ foo: bar }`
+      if (ts.isShorthandPropertyAssignment(parent) && parent.name === node) {
+        text = renamesMember ? `${newName}: ${oldName}` : `${oldName}: ${newName}`;
+      }
+    }
+
+    const fileEdits = edits.get(location.fileName) ?? [];
+    fileEdits.push({ start: location.start, length: location.length, text });
+    edits.set(location.fileName, fileEdits);
+  }
+
+  // References to another `newName` inside the scope of a renamed declaration would be captured by it
+  if (!renamesMember) {
+    for (const name of targetNames) {
+      const container = scopeContainer(name.parent);
+      for (const identifier of identifiersNamed(container, newName)) {
+        const symbol = checker.getSymbolAtLocation(identifier);
+        if (!symbol || isTarget(symbol) || symbol.flags & (ts.SymbolFlags.Property | ts.SymbolFlags.Method)) continue;
+        const declaredInside = (symbol.declarations ?? []).some(declaration =>
+          declaration.getSourceFile() === container.getSourceFile() &&
+          declaration.pos >= container.pos && declaration.end <= container.end
+        );
+        if (!declaredInside) {
+          const sourceFile = identifier.getSourceFile();
+          conflict(sourceFile, identifier.getStart(sourceFile), `This reference to \`${newName}\` would resolve to the renamed declaration instead`);
+        }
+      }
+    }
+  }
+
+  for (const [file, fileEdits] of edits) {
+    const original = contents.get(file)!;
+    let modified = original;
+    for (const edit of fileEdits.sort((a, b) => b.start - a.start)) {
+      modified = modified.slice(0, edit.start) + edit.text + modified.slice(edit.start + edit.length);
+    }
+    plan.edits.push({ file, original, modified, changes: fileEdits.length, ...sources.get(file)! });
+  }
+  plan.edits.sort((a, b) => a.file.localeCompare(b.file));
+  plan.conflicts.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+
+  return plan;
+}
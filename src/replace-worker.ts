@@ -0,0 +1,50 @@
+import { parentPort } from "worker_threads";
+import { LineEnding } from "./encoding.js";
+import { ReplaceOutcome, hasMatch, replaceMatches } from "./matcher.js";
+
+// A regex as sent to the worker
+export interface PatternSource {
+  source: string;
+  flags: string;
+}
+
+// Work sent from the server; regexes run here so a runaway pattern cannot block the server
+export type MatcherJob =
+  | {
+    type: 'replace';
+    content: string;
+    pattern: PatternSource;
+    replacement: string;
+    displayPath: string;
+    selectedIds?: string[];
+    literalReplacement?: boolean;
+    lineEnding?: LineEnding;
+  }
+  | { type: 'test'; content: string; patterns: PatternSource[] };
+
+export type MatcherResponse =
+  | { id: number; outcome: ReplaceOutcome | boolean }
+  | { id: number; error: string };
+
+// Helper function to run one job
+function runJob(job: MatcherJob): ReplaceOutcome | boolean {
+  if (job.type === 'test') {
+    return hasMatch(job.content, job.patterns.map(pattern => new RegExp(pattern.source, pattern.flags)));
+  }
+  return replaceMatches(job.content, new RegExp(job.pattern.source, job.pattern.flags), job.replacement, {
+    displayPath: job.displayPath,
+    selectedIds: job.selectedIds ? new Set(job.selectedIds) : undefined,
+    literalReplacement: job.literalReplacement,
+    lineEnding: job.lineEnding,
+  });
+}
+
+parentPort?.on('message', ({ id, job }: { id: number; job: MatcherJob }) => {
+  let response: MatcherResponse;
+  try {
+    response = { id, outcome: runJob(job) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort!.postMessage(response);
+});
@@ -0,0 +1,379 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Worker } from "worker_threads";
+import { getConfig } from "./config.js";
+import { FileEncoding, LineEnding, UnsupportedFileError, decodeText, readTextFile } from "./encoding.js";
+import { FileSnapshot, isInJournal, readFileSnapshot } from "./journal.js";
+import { FileFilter, FileFilterOptions, buildIgnoreArgs, createFileFilter } from "./ignore.js";
+import { ReplaceMatch, ReplaceOutcome } from "./matcher.js";
+import { CancelledError, ToolContext, throwIfCancelled } from "./progress.js";
+import { MatcherJob, MatcherResponse } from "./replace-worker.js";
+import { resolveWorkspacePath, toRootRelative } from "./sandbox.js";
+import { UgrepError, buildFileTypeArgs, runUgrep } from "./ugrep.js";
+
+export type { ReplaceMatch } from "./matcher.js";
+
+// Split a match id back into its parts; the file part may itself contain colons
+export function parseMatchId(id: string): { file: string; line: number; column: number; hash: string } {
+  const parsed = /^(.+):(\d+):(\d+):([0-9a-f]{8})$/.exec(id);
+  if (!parsed) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid match id: ${id}`);
+  }
+  return { file: parsed[1], line: Number(parsed[2]), column: Number(parsed[3]), hash: parsed[4] };
+}
+
+// How a replacement pattern is matched, shared by file discovery and the replacement itself
+export interface PatternOptions {
+  caseSensitive?: boolean;
+  // ^ and $ match at every line break instead of only at the start and end of the file
+  multiline?: boolean;
+  // . also matches line breaks
+  dotAll?: boolean;
+  // The pattern is plain text and the replacement is inserted as is
+  literal?: boolean;
+  // Matches must not be preceded or followed by a word character (like ugrep -w)
+  wholeWord?: boolean;
+}
+
+// Error raised when a pattern exceeds the time budget on a file, usually from catastrophic backtracking
+export class PatternTimeoutError extends Error {
+  constructor(displayPath: string, timeoutMs: number) {
+    super(`Pattern matching on ${displayPath} was aborted after ${timeoutMs}ms; simplify the pattern or use literal: true`);
+    this.name = 'PatternTimeoutError';
+  }
+}
+
+// Compile a replacement pattern into the global regex used to find its matches.
+// Invalid patterns are rejected with the regex parser's message.
+export function compileReplacePattern(pattern: string, options: PatternOptions): RegExp {
+  let source = options.literal ? pattern.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&') : pattern;
+  if (options.wholeWord) {
+    source = `(?<!\\w)(?:${source})(?!\\w)`;
+  }
+  const flags = `g${options.caseSensitive ? '' : 'i'}${options.multiline ? 'm' : ''}${options.dotAll ? 's' : ''}`;
+  try {
+    return new RegExp(source, flags);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
+// The worker that runs regexes off the main thread, started on first use
+let matcherWorker: Worker | undefined;
+let nextJobId = 1;
+// Jobs run one at a time so each time budget only covers its own job
+let jobQueue: Promise<unknown> = Promise.resolve();
+
+// Helper function to run a job in the matcher worker, stopping the worker when the budget runs out
+function runMatcherJob<T extends ReplaceOutcome | boolean>(job: MatcherJob, displayPath: string, timeoutMs: number): Promise<T> {
+  const run = () => new Promise<T>((resolve, reject) => {
+    if (!matcherWorker) {
+      matcherWorker = new Worker(new URL('./replace-worker.js', import.meta.url));
+      // An idle worker never keeps the server alive
+      matcherWorker.unref();
+    }
+    const worker = matcherWorker;
+    const id = nextJobId++;
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      worker.off('message', onMessage);
+      worker.off('error', onError);
+    };
+    const onMessage = (response: MatcherResponse) => {
+      if (response.id !== id) return;
+      cleanup();
+      if ('error' in response) reject(new Error(response.error));
+      else resolve(response.outcome as T);
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      matcherWorker = undefined;
+      reject(error);
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      // A regex cannot be interrupted, so the whole worker goes; the next job starts a fresh one
+      matcherWorker = undefined;
+      worker.terminate().catch(() => undefined);
+      reject(new PatternTimeoutError(displayPath, timeoutMs));
+    }, timeoutMs);
+
+    worker.on('message', onMessage);
+    worker.on('error', onError);
+    worker.postMessage({ id, job });
+  });
+
+  const result = jobQueue.then(run, run);
+  jobQueue = result.catch(() => undefined);
+  return result;
+}
+
+// A file read for a replacement run: its text, how it is stored and its state on disk
+export interface ReplaceSource {
+  original: string;
+  encoding: FileEncoding;
+  snapshot: FileSnapshot;
+}
+
+// Read a file for a replacement run, detecting its encoding, BOM and line breaks so it can be
+// written back unchanged apart from the replacements. Files that cannot be decoded exactly, and
+// binary files unless `includeBinary` is set, are refused with an UnsupportedFileError.
+export async function readReplaceSource(filePath: string, options: { includeBinary?: boolean } = {}): Promise<ReplaceSource> {
+  const { bytes, snapshot } = await readFileSnapshot(filePath);
+  const { text, encoding } = decodeText(bytes, toRootRelative(filePath), options);
+  return { original: text, encoding, snapshot };
+}
+
+// Helper function to run one replacement over text in the matcher worker.
+// Every match gets a stable id; with `selectedIds` only those matches are replaced.
+export async function replaceInText(
+  text: string,
+  pattern: string,
+  replacement: string,
+  options: PatternOptions & { displayPath: string; lineEnding: LineEnding; selectedIds?: Set<string>; timeoutMs?: number }
+): Promise<ReplaceOutcome> {
+  const regex = compileReplacePattern(pattern, options);
+  return runMatcherJob<ReplaceOutcome>({
+    type: 'replace',
+    content: text,
+    pattern: { source: regex.source, flags: regex.flags },
+    replacement,
+    displayPath: options.displayPath,
+    selectedIds: options.selectedIds ? [...options.selectedIds] : undefined,
+    literalReplacement: options.literal,
+    lineEnding: options.lineEnding,
+  }, options.displayPath, options.timeoutMs ?? getConfig().timeouts.replaceMs);
+}
+
+// Helper function to perform search and replace on one file; see readReplaceSource and replaceInText
+export async function performReplace(
+  filePath: string,
+  pattern: string,
+  replacement: string,
+  options: PatternOptions & { selectedIds?: Set<string>; includeBinary?: boolean; timeoutMs?: number } = {}
+): Promise<ReplaceSource & { modified: string; changes: number; matches: ReplaceMatch[] }> {
+  compileReplacePattern(pattern, options);
+  const source = await readReplaceSource(filePath, { includeBinary: options.includeBinary });
+  const outcome = await replaceInText(source.original, pattern, replacement, {
+    ...options,
+    displayPath: toRootRelative(filePath),
+    lineEnding: source.encoding.lineEnding,
+  });
+  return { ...source, ...outcome };
+}
+
+// Files passed to one ugrep invocation when an explicit file list is given
+const FILE_BATCH_SIZE = 500;
+
+// JavaScript regex syntax that ugrep rejects or reads differently: backreferences, lookbehind,
+// lookahead and named groups. Such patterns are only matched with the JavaScript regex.
+const JS_ONLY_SYNTAX = /\\[1-9]|\\k<|\(\?<?[=!]|\(\?<[A-Za-z_$]/;
+
+// Files selected for a replacement run
+export interface CandidateFiles {
+  files: string[];
+  // Number of files that matched, or a lower bound when `incomplete` is set
+  matchingFiles: number;
+  // Matching files left out because of the maxFiles cap
+  skipped: number;
+  // The ugrep listing itself was cut short, so more files may match
+  incomplete: boolean;
+  // Matching files that will not be rewritten (binary or an unknown encoding), with the reason
+  refused: Array<{ file: string; reason: string }>;
+}
+
+// Helper function to check, in the matcher worker, whether a file has a match for any of the regexes.
+// Files that cannot be decoded throw an UnsupportedFileError.
+async function hasReplaceMatch(
+  filePath: string,
+  regexes: RegExp[],
+  options: { includeBinary?: boolean; timeoutMs: number }
+): Promise<boolean> {
+  const displayPath = toRootRelative(filePath);
+  let content: string;
+  try {
+    content = (await readTextFile(filePath, displayPath, { includeBinary: options.includeBinary })).text;
+  } catch (error) {
+    if (error instanceof UnsupportedFileError) throw error;
+    return false;
+  }
+  return runMatcherJob<boolean>({
+    type: 'test',
+    content,
+    patterns: regexes.map(regex => ({ source: regex.source, flags: regex.flags })),
+  }, displayPath, options.timeoutMs);
+}
+
+// Helper function to find the files that actually match the replacement pattern(s).
+// Ignored files and files in the change journal are never listed. Binary files (unless `includeBinary` is set) and files in an
+// unknown encoding are returned as refused, so the tools can say why they were left alone.
+// ugrep narrows the files down; each candidate is then confirmed with the same regex the
+// replacement uses, since ugrep anchors ^ and $ at lines whatever the multiline option says.
+// When ugrep cannot run the pattern itself, it only lists the files the filters allow, and the
+// JavaScript regex decides on its own.
+export async function findFilesForReplacement(
+  searchPath: string,
+  options: PatternOptions & {
+    patterns: string[];
+    fileTypes?: string;
+    maxFiles: number;
+    filter: FileFilterOptions;
+    includeBinary?: boolean;
+    // Only consider these files (e.g. a git scope) instead of everything below the search path
+    files?: string[];
+    timeoutMs?: number;
+    context?: ToolContext;
+  }
+): Promise<CandidateFiles> {
+  const { signal, progress } = options.context ?? {};
+  const fileFilter = createFileFilter(options.filter);
+  // Compiled first, so an invalid pattern is rejected before anything runs
+  const regexes = options.patterns.map(pattern => compileReplacePattern(pattern, options));
+  const filterArgs = [...buildFileTypeArgs({ fileTypes: options.fileTypes }), ...buildIgnoreArgs(options.filter)];
+  const patternArgv = [
+    "-l",
+    ...(options.caseSensitive ? [] : ["-i"]),
+    ...(options.dotAll ? ["--dotall"] : []),
+    ...(options.literal ? ["-F"] : []),
+    ...(options.wholeWord ? ["-w"] : []),
+    ...filterArgs,
+    ...options.patterns.flatMap(pattern => ["-e", pattern]),
+    "--",
+  ];
+  // ^ matches every file with at least one line; binary files would only be refused anyway
+  const everyFileArgv = ["-l", ...(options.includeBinary ? [] : ["-I"]), ...filterArgs, "-e", "^", "--"];
+  const jsOnly = !options.literal && options.patterns.some(pattern => JS_ONLY_SYNTAX.test(pattern));
+  const batches: string[][] = [];
+  if (options.files) {
+    for (let i = 0; i < options.files.length; i += FILE_BATCH_SIZE) {
+      batches.push(options.files.slice(i, i + FILE_BATCH_SIZE));
+    }
+  } else {
+    batches.push([searchPath]);
+  }
+
+  // List every matching file and apply the cap here, so skipped files can be reported
+  let stdout = '';
+  let truncated = false;
+  const listFiles = async (argv: string[]) => {
+    stdout = '';
+    truncated = false;
+    for (const batch of batches) {
+      const run = await runUgrep([...argv, ...batch], { signal });
+      stdout += run.stdout;
+      truncated ||= run.truncated;
+    }
+  };
+  try {
+    try {
+      await listFiles(jsOnly ? everyFileArgv : patternArgv);
+    } catch (error) {
+      // ugrep ran but refused the pattern, e.g. syntax it does not support
+      if (jsOnly || !(error instanceof UgrepError) || error.exitCode === null) throw error;
+      await listFiles(everyFileArgv);
+    }
+  } catch (error) {
+    if (error instanceof CancelledError) {
+      throw new CancelledError('stopped while listing matching files; no files were changed');
+    }
+    throw error;
+  }
+  const listed = [...new Set(stdout.split('\n').filter(line => line.trim().length > 0))].sort();
+  // ugrep cannot apply path globs, and does not apply ignore files to a path given explicitly
+  const accepted = await Promise.all(listed.map(file => fileFilter.accepts(file)));
+  const matching: string[] = [];
+  const refused: CandidateFiles["refused"] = [];
+  // The journal may live outside .codeseeker (backup.dir), so it is checked by path as well
+  const listedFiles = listed.filter((file, index) => accepted[index] && !isInJournal(file));
+  for (const [index, file] of listedFiles.entries()) {
+    throwIfCancelled(signal, `${index} of ${listedFiles.length} candidate file(s) scanned; no files were changed`);
+    progress?.report(index, listedFiles.length, `Scanned ${index} of ${listedFiles.length} candidate file(s)`);
+    try {
+      const timeoutMs = options.timeoutMs ?? getConfig().timeouts.replaceMs;
+      if (await hasReplaceMatch(file, regexes, { includeBinary: options.includeBinary, timeoutMs })) matching.push(file);
+    } catch (error) {
+      if (!(error instanceof UnsupportedFileError)) throw error;
+      refused.push({ file, reason: error.reason });
+    }
+  }
+
+  return {
+    files: matching.slice(0, options.maxFiles),
+    matchingFiles: matching.length,
+    skipped: Math.max(0, matching.length - options.maxFiles),
+    incomplete: truncated,
+    refused,
+  };
+}
+
+// Helper function to combine the files found for several operations, applying the maxFiles cap to the union
+export function mergeCandidateFiles(results: CandidateFiles[], maxFiles: number): CandidateFiles {
+  const matching = [...new Set(results.flatMap(result => result.files))].sort();
+  const refused = new Map(results.flatMap(result => result.refused).map(entry => [entry.file, entry]));
+  return {
+    files: matching.slice(0, maxFiles),
+    matchingFiles: matching.length,
+    skipped: Math.max(0, matching.length - maxFiles),
+    incomplete: results.some(result => result.incomplete),
+    refused: [...refused.values()],
+  };
+}
+
+// Helper function to list every file of the given types below a path, whatever its content.
+// ugrep only applies file types while walking directories, so membership is checked this way.
+export async function listFilesOfTypes(
+  searchPath: string,
+  fileTypes: string,
+  filter: FileFilterOptions,
+  signal?: AbortSignal
+): Promise<Set<string>> {
+  const { stdout } = await runUgrep([
+    "-l",
+    ...buildFileTypeArgs({ fileTypes }),
+    ...buildIgnoreArgs(filter),
+    // The empty pattern matches every file
+    "-e", "",
+    "--",
+    searchPath,
+  ], { signal });
+  return new Set(stdout.split('\n').filter(line => line.trim().length > 0));
+}
+
+// Helper function to describe files left out by the maxFiles cap
+export function formatSkippedFiles(candidates: CandidateFiles, maxFiles: number): string {
+  if (candidates.skipped === 0 && !candidates.incomplete) {
+    return '';
+  }
+  const skipped = candidates.incomplete ? `at least ${candidates.skipped}` : `${candidates.skipped}`;
+  return `- ⚠️ Files skipped: ${skipped} more file(s) match but were not processed (maxFiles: ${maxFiles})\n`;
+}
+
+// Files listed by name when reporting files that were not rewritten
+const MAX_REFUSED_LISTED = 20;
+
+// Helper function to describe matching files that were left alone because of their content
+export function formatRefusedFiles(refused: CandidateFiles["refused"]): string {
+  if (refused.length === 0) {
+    return '';
+  }
+  const rows = refused.slice(0, MAX_REFUSED_LISTED).map(({ file, reason }) => `  - ${toRootRelative(file)}: ${reason}\n`);
+  const more = refused.length > MAX_REFUSED_LISTED ? `  - ... and ${refused.length - MAX_REFUSED_LISTED} more\n` : '';
+  return `- ⏭️ Files not rewritten: ${refused.length}\n${rows.join('')}${more}`;
+}
+
+// Helper function to collect the files named by a list of match ids, confined to the workspace
+// and to the files the filter accepts
+export async function findFilesForMatchIds(ids: string[], fileFilter: FileFilter): Promise<CandidateFiles> {
+  const files = new Set<string>();
+  for (const id of ids) {
+    const file = await resolveWorkspacePath(parseMatchId(id).file);
+    if (!(await fileFilter.accepts(file))) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Match id ${id} is in an ignored or excluded file; pass respectIgnore: false or adjust include/exclude to edit it`
+      );
+    }
+    files.add(file);
+  }
+  return { files: [...files].sort(), matchingFiles: files.size, skipped: 0, incomplete: false, refused: [] };
+}
@@ -0,0 +1,113 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import fs from "fs/promises";
+import { UnsupportedFileError, decodeText } from "../encoding.js";
+import { UGREP_RECORD_FORMAT, parseUgrepOutput } from "../results.js";
+import { resolveWorkspacePath } from "../sandbox.js";
+import { runUgrep } from "../ugrep.js";
+import { ResourceLocation, parseResourceUri } from "./uri.js";
+
+export { buildResourceUri, buildSnippetUri, parseResourceUri } from "./uri.js";
+export type { ResourceLocation } from "./uri.js";
+
+// Most text a single resource read returns; larger files must be read in line ranges
+export const MAX_RESOURCE_BYTES = 256 * 1024;
+
+// Largest file a line range is read from
+const MAX_SOURCE_BYTES = 64 * 1024 * 1024;
+
+// URI templates announced in resources/templates/list
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "codeseeker://file/{path}",
+    name: "Workspace file",
+    description: `A file below the workspace roots (path relative to the first root). Append #L10-L40 for a line range; whole files are limited to ${MAX_RESOURCE_BYTES / 1024} KiB`,
+    mimeType: "text/plain",
+  },
+  {
+    uriTemplate: "codeseeker://archive/{archive}!/{member}",
+    name: "Archive member",
+    description: "A file inside an archive found by archive_search. Append #L10-L40 for a line range",
+    mimeType: "text/plain",
+  },
+];
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+// Helper function to read the lines of an archive member; ugrep decompresses it and
+// reports every line as a match of the empty pattern
+async function readArchiveMemberLines(archivePath: string, member: string, uri: string): Promise<string[]> {
+  const { stdout, truncated } = await runUgrep(["-z", `--format=${UGREP_RECORD_FORMAT}`, "-e", "", "--", archivePath]);
+  const lines: string[] = [];
+  let found = false;
+  for (const match of parseUgrepOutput(stdout, { archives: true }).matches) {
+    if (match.archiveMember !== member) continue;
+    found = true;
+    lines[match.line - 1] = match.lineText;
+  }
+  if (!found) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      truncated
+        ? `Archive member not found in the part of the archive that could be read: ${uri}`
+        : `Archive member not found or empty: ${uri}`
+    );
+  }
+  return Array.from(lines, line => line ?? '');
+}
+
+// Helper function to read and decode a workspace file
+async function readWorkspaceText(location: ResourceLocation, uri: string): Promise<string> {
+  const filePath = await resolveWorkspacePath(location.file);
+  const stats = await fs.stat(filePath);
+  if (!stats.isFile()) {
+    throw new McpError(ErrorCode.InvalidParams, `Not a file: ${uri}`);
+  }
+  const limit = location.startLine === undefined ? MAX_RESOURCE_BYTES : MAX_SOURCE_BYTES;
+  if (stats.size > limit) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${location.file} is ${stats.size} bytes, more than the ${limit / 1024} KiB limit; request a line range such as ${uri.replace(/#.*$/, '')}#L1-L200`
+    );
+  }
+  try {
+    return decodeText(await fs.readFile(filePath), location.file).text;
+  } catch (error) {
+    if (error instanceof UnsupportedFileError) {
+      throw new McpError(ErrorCode.InvalidParams, `${location.file} cannot be read as text: ${error.reason}`);
+    }
+    throw error;
+  }
+}
+
+// Read a codeseeker:// resource: a whole file, a line range or an archive member
+export async function readResource(uri: string): Promise<ResourceContents> {
+  const location = parseResourceUri(uri);
+
+  let text: string;
+  if (location.archiveMember !== undefined) {
+    const lines = await readArchiveMemberLines(await resolveWorkspacePath(location.file), location.archiveMember, uri);
+    text = lines.join('\n');
+  } else {
+    text = await readWorkspaceText(location, uri);
+  }
+
+  if (location.startLine !== undefined) {
+    const lines = text.split(/\r?\n/);
+    if (location.startLine > lines.length) {
+      throw new McpError(ErrorCode.InvalidParams, `${uri} starts after the last line (${lines.length})`);
+    }
+    text = lines.slice(location.startLine - 1, location.endLine).join('\n');
+  }
+
+  if (Buffer.byteLength(text) > MAX_RESOURCE_BYTES) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${uri} is larger than the ${MAX_RESOURCE_BYTES / 1024} KiB limit; request a smaller line range`
+    );
+  }
+  return { uri, mimeType: "text/plain", text };
+}
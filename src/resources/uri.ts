@@ -0,0 +1,76 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+// Lines shown on each side of a match in the snippet its resource URI points to
+export const SNIPPET_RADIUS = 10;
+
+// What a resource URI points to: a file or archive member, optionally narrowed to a line range
+export interface ResourceLocation {
+  // Path relative to the primary workspace root, or absolute for files in other roots
+  file: string;
+  archiveMember?: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+// Helper function to percent-encode a path while keeping its slashes readable. `!` is encoded too
+// (encodeURIComponent leaves it alone), so a path can never contain the archive separator `!/`.
+function encodePath(value: string): string {
+  return value.split('/').map(segment => encodeURIComponent(segment).replace(/!/g, '%21')).join('/');
+}
+
+// Build a resource URI:
+//   codeseeker://file/<path>#L10-L40
+//   codeseeker://archive/<archive path>!/<member path>#L10-L40
+// A `!` inside either path is written as %21.
+export function buildResourceUri(location: ResourceLocation): string {
+  const base = location.archiveMember !== undefined
+    ? `codeseeker://archive/${encodePath(location.file)}!/${encodePath(location.archiveMember)}`
+    : `codeseeker://file/${encodePath(location.file)}`;
+  if (location.startLine === undefined) {
+    return base;
+  }
+  const end = location.endLine !== undefined && location.endLine !== location.startLine ? `-L${location.endLine}` : '';
+  return `${base}#L${location.startLine}${end}`;
+}
+
+// Helper function to build the URI of the snippet centred on a line
+export function buildSnippetUri(location: Omit<ResourceLocation, 'startLine' | 'endLine'>, line: number): string {
+  return buildResourceUri({ ...location, startLine: Math.max(1, line - SNIPPET_RADIUS), endLine: line + SNIPPET_RADIUS });
+}
+
+// Parse a resource URI built by buildResourceUri
+export function parseResourceUri(uri: string): ResourceLocation {
+  const invalid = (reason: string) => new McpError(ErrorCode.InvalidParams, `Invalid resource URI "${uri}": ${reason}`);
+  const parsed = /^codeseeker:\/\/(file|archive)\/([^#]+)(?:#L(\d+)(?:-L(\d+))?)?$/.exec(uri);
+  if (!parsed) {
+    throw invalid('expected codeseeker://file/<path> or codeseeker://archive/<archive>!/<member>, optionally followed by #L<start>-L<end>');
+  }
+
+  const [, kind, encodedPath, start, end] = parsed;
+  let file: string;
+  let archiveMember: string | undefined;
+  try {
+    if (kind === 'archive') {
+      // Paths encode their own `!`, so the first literal `!/` is the separator
+      const separator = encodedPath.indexOf('!/');
+      if (separator < 0) throw invalid('archive URIs name a member after "!/"');
+      file = decodeURIComponent(encodedPath.slice(0, separator));
+      archiveMember = decodeURIComponent(encodedPath.slice(separator + 2));
+    } else {
+      file = decodeURIComponent(encodedPath);
+    }
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw invalid('malformed percent-encoding');
+  }
+  if (!file || archiveMember === '') {
+    throw invalid('empty path');
+  }
+
+  const startLine = start !== undefined ? Number(start) : undefined;
+  const endLine = end !== undefined ? Number(end) : startLine;
+  if (startLine !== undefined && (startLine < 1 || endLine! < startLine)) {
+    throw invalid('line ranges start at 1 and must not end before they start');
+  }
+  return { file, archiveMember, startLine, endLine };
+}
@@ -0,0 +1,261 @@
+import fs from "fs/promises";
+import { getConfig } from "./config.js";
+import type { ToolResult } from "./registry.js";
+import { buildResourceUri, buildSnippetUri } from "./resources/uri.js";
+import { toRootRelative } from "./sandbox.js";
+import type { IndexUsage } from "./trigram/index.js";
+
+// ugrep --format string that emits one JSON record per match.
+// %h and %J/%j are already quoted and escaped by ugrep, so every line is valid JSON.
+export const UGREP_RECORD_FORMAT = '{"file":%h,"line":%n,"column":%k,"match":%j,"text":%J}%~';
+
+// A single match reported by ugrep
+export interface SearchMatch {
+  file: string;
+  archiveMember?: string;
+  line: number;
+  column: number;
+  match: string;
+  lineText: string;
+  contextBefore: string[];
+  contextAfter: string[];
+  // Resource with the lines around the match (see resources/read)
+  resourceUri?: string;
+}
+
+// All matches found in one file (or one archive member)
+export interface FileMatches {
+  file: string;
+  archiveMember?: string;
+  matchCount: number;
+  matches: SearchMatch[];
+  // Resource with the whole file or archive member
+  resourceUri?: string;
+}
+
+// Position of one page within a cached result
+export interface PageInfo {
+  offset: number;
+  pageSize: number;
+  returned: number;
+  // Matches in the whole result; a lower bound when ugrep output was truncated
+  totalEstimate: number;
+  totalIsExact: boolean;
+  nextCursor?: string;
+  expiresAt: string;
+}
+
+// Structured result shared by every search tool
+export interface SearchResult {
+  totalMatches: number;
+  fileCount: number;
+  duplicatesRemoved: number;
+  // ugrep output hit the byte cap, so more matches may exist
+  truncated?: boolean;
+  // Set when the result is one page of a larger cached result
+  page?: PageInfo;
+  // How the trigram index narrowed the search, when the workspace root has one
+  index?: IndexUsage;
+  // Served from the query cache because no file below the search path changed since it ran
+  cached?: boolean;
+  files: FileMatches[];
+}
+
+export interface ParsedUgrepOutput {
+  matches: SearchMatch[];
+  // Lines that were not match records, e.g. the --stats report
+  otherLines: string[];
+}
+
+// One line printed with UGREP_RECORD_FORMAT; column, match and text only feed the display
+interface UgrepRecord {
+  file: string;
+  line: number;
+  column?: unknown;
+  match?: unknown;
+  text?: unknown;
+}
+
+// Helper function to tell a match record from other output that happens to be JSON
+function isUgrepRecord(value: unknown): value is UgrepRecord {
+  if (typeof value !== 'object' || value === null) return false;
+  const record = value as Record<string, unknown>;
+  return typeof record.file === 'string' && typeof record.line === 'number';
+}
+
+// Helper function to split "archive.zip{member/path}" into its parts
+function splitArchivePath(file: string): { file: string; archiveMember?: string } {
+  const match = file.match(/^(.*?)\{(.*)\}$/);
+  if (!match) {
+    return { file };
+  }
+  return { file: match[1], archiveMember: match[2] };
+}
+
+// Helper function to parse ugrep output produced with UGREP_RECORD_FORMAT
+export function parseUgrepOutput(stdout: string, options: { archives?: boolean } = {}): ParsedUgrepOutput {
+  const matches: SearchMatch[] = [];
+  const otherLines: string[] = [];
+
+  for (const rawLine of stdout.split('\n')) {
+    const line = rawLine.replace(/\r$/, '');
+    if (!line.trim()) continue;
+
+    let record: unknown;
+    try {
+      record = line.startsWith('{') ? JSON.parse(line) : undefined;
+    } catch {
+      record = undefined;
+    }
+
+    if (!isUgrepRecord(record)) {
+      otherLines.push(line);
+      continue;
+    }
+
+    const location = options.archives ? splitArchivePath(record.file) : { file: record.file };
+    matches.push({
+      ...location,
+      line: record.line,
+      column: typeof record.column === 'number' ? record.column : 1,
+      match: String(record.match ?? ''),
+      lineText: String(record.text ?? '').replace(/\r?\n$/, ''),
+      contextBefore: [],
+      contextAfter: [],
+    });
+  }
+
+  return { matches, otherLines };
+}
+
+// Helper function to fill in context lines by reading the matched files
+export async function attachContext(matches: SearchMatch[], contextLines: number): Promise<void> {
+  if (contextLines <= 0) return;
+
+  const fileLines = new Map<string, string[] | null>();
+
+  for (const match of matches) {
+    // Archive members cannot be read directly from disk
+    if (match.archiveMember) continue;
+
+    if (!fileLines.has(match.file)) {
+      try {
+        const content = await fs.readFile(match.file, 'utf-8');
+        fileLines.set(match.file, content.split(/\r?\n/));
+      } catch {
+        fileLines.set(match.file, null);
+      }
+    }
+
+    const lines = fileLines.get(match.file);
+    if (!lines) continue;
+
+    const index = match.line - 1;
+    match.contextBefore = lines.slice(Math.max(0, index - contextLines), index);
+    match.contextAfter = lines.slice(index + 1, index + 1 + contextLines);
+  }
+}
+
+// Helper function to dedupe matches and group them by file
+export function groupMatches(matches: SearchMatch[]): SearchResult {
+  const seen = new Set<string>();
+  const groups = new Map<string, FileMatches>();
+  let duplicatesRemoved = 0;
+
+  for (const match of matches) {
+    const key = JSON.stringify([match.file, match.archiveMember ?? '', match.line, match.column, match.match]);
+    if (seen.has(key)) {
+      duplicatesRemoved++;
+      continue;
+    }
+    seen.add(key);
+
+    const groupKey = JSON.stringify([match.file, match.archiveMember ?? '']);
+    const location = { file: toRootRelative(match.file), archiveMember: match.archiveMember };
+    let group = groups.get(groupKey);
+    if (!group) {
+      group = { file: match.file, archiveMember: match.archiveMember, matchCount: 0, matches: [], resourceUri: buildResourceUri(location) };
+      groups.set(groupKey, group);
+    }
+    match.resourceUri = buildSnippetUri(location, match.line);
+    group.matches.push(match);
+    group.matchCount++;
+  }
+
+  const files = [...groups.values()];
+  for (const group of files) {
+    group.matches.sort((a, b) => a.line - b.line || a.column - b.column);
+  }
+
+  return {
+    totalMatches: files.reduce((sum, group) => sum + group.matchCount, 0),
+    fileCount: files.length,
+    duplicatesRemoved,
+    files,
+  };
+}
+
+// Helper function to describe how the trigram index was used
+function formatIndexUsage(usage: IndexUsage): string {
+  if (usage.used) {
+    return `⚡ Index: searched ${usage.candidateFiles} of ${usage.filesInScope} file(s)`;
+  }
+  if (usage.stale) {
+    return `⚠️ Index was stale, so a full scan was used: ${usage.reason}`;
+  }
+  return `ℹ️ Index not used: ${usage.reason}`;
+}
+
+// Helper function to render a result as compact, grouped-by-file text
+export function formatSearchResult(result: SearchResult, emptyMessage: string = 'No matches found.'): string {
+  let note = result.index ? `${formatIndexUsage(result.index)}\n` : '';
+  if (result.cached) {
+    note += `♻️ Cached result: no files below the search path changed since the search ran\n`;
+  }
+  if (result.totalMatches === 0) {
+    return `${note}${emptyMessage}`;
+  }
+
+  const page = result.page;
+  let text = note;
+  text += page && (page.offset > 0 || page.nextCursor)
+    ? `Found ${page.totalEstimate}${page.totalIsExact ? '' : '+'} match(es); showing ${page.offset + 1}-${page.offset + page.returned} in ${result.fileCount} file(s)\n`
+    : `Found ${result.totalMatches} match(es) in ${result.fileCount} file(s)\n`;
+  if (result.truncated) {
+    text += `⚠️ Output was truncated; narrow the search to see all matches\n`;
+  }
+
+  for (const group of result.files) {
+    const location = group.archiveMember ? `${group.file} → ${group.archiveMember}` : group.file;
+    text += `\n📄 **${location}** (${group.matchCount})${group.resourceUri ? ` · \`${group.resourceUri}\`` : ''}\n`;
+
+    for (const match of group.matches) {
+      match.contextBefore.forEach((line, i) => {
+        text += `  ${match.line - match.contextBefore.length + i}-  ${line}\n`;
+      });
+      text += `  ${match.line}:${match.column}  ${match.lineText}\n`;
+      match.contextAfter.forEach((line, i) => {
+        text += `  ${match.line + 1 + i}-  ${line}\n`;
+      });
+    }
+  }
+
+  if (page?.nextCursor) {
+    text += `\n➡️ More matches available: pass \`cursor: "${page.nextCursor}"\` with the same arguments for the next page (expires ${page.expiresAt})\n`;
+  }
+
+  return text;
+}
+
+// Helper function to build the tool response: readable text, the JSON model, or both (see the output setting)
+export function buildSearchResponse(header: string, result: SearchResult, emptyMessage?: string): ToolResult {
+  const { output } = getConfig();
+  const content: ToolResult["content"] = [];
+  if (output !== 'json') {
+    content.push({ type: "text", text: `${header}\n\n${formatSearchResult(result, emptyMessage)}` });
+  }
+  if (output !== 'text') {
+    content.push({ type: "text", text: JSON.stringify(result, null, 2) });
+  }
+  return { content };
+}
@@ -0,0 +1,165 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { AsyncLocalStorage } from "async_hooks";
+import path from "path";
+import fs from "fs/promises";
+import { fileURLToPath } from "url";
+
+// Roots configured by whoever launched the server (CLI flag or env var)
+let operatorRoots: string[] = [];
+// Roots currently in effect; client-provided roots may replace the defaults
+let activeRoots: string[] = [];
+
+// Roots of one client connection when several clients share the server (HTTP mode);
+// empty until the client announces roots, so the server-wide roots apply
+export interface RootSession {
+  roots: string[];
+}
+
+const rootSessions = new AsyncLocalStorage<RootSession>();
+
+// Run a function (and everything it starts) with the roots of a client session
+export function runInRootSession<T>(session: RootSession, fn: () => T): T {
+  return rootSessions.run(session, fn);
+}
+
+// Helper function to get the roots in effect for the current request
+function currentRoots(): string[] {
+  const session = rootSessions.getStore();
+  return session && session.roots.length > 0 ? session.roots : activeRoots;
+}
+
+// Helper function to collect --root flags from the command line
+export function parseRootArgs(argv: string[]): string[] {
+  const roots: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--root' && argv[i + 1]) {
+      roots.push(argv[++i]);
+    } else if (arg.startsWith('--root=')) {
+      roots.push(arg.slice('--root='.length));
+    }
+  }
+  return roots;
+}
+
+// Helper function to read roots from CODESEEKER_ROOTS (path.delimiter separated)
+export function parseRootEnv(value: string | undefined): string[] {
+  if (!value) return [];
+  return value.split(path.delimiter).filter(root => root.trim().length > 0);
+}
+
+// Helper function to canonicalize a list of root directories
+async function canonicalizeRoots(roots: string[]): Promise<string[]> {
+  const resolved: string[] = [];
+  for (const root of roots) {
+    try {
+      const real = await fs.realpath(path.resolve(root));
+      const stats = await fs.stat(real);
+      if (stats.isDirectory() && !resolved.includes(real)) {
+        resolved.push(real);
+      }
+    } catch {
+      console.error(`Ignoring workspace root that does not exist: ${root}`);
+    }
+  }
+  return resolved;
+}
+
+// Helper function to check whether a path lies inside a root
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative));
+}
+
+// Configure the operator roots; falls back to the working directory when none are given
+export async function configureRoots(roots: string[]): Promise<void> {
+  operatorRoots = await canonicalizeRoots(roots);
+  activeRoots = operatorRoots.length > 0 ? operatorRoots : await canonicalizeRoots([process.cwd()]);
+}
+
+// Apply roots announced by the MCP client (file:// URIs).
+// When the operator configured roots, client roots may only narrow them.
+export async function setClientRoots(uris: string[]): Promise<void> {
+  const paths = uris
+    .filter(uri => uri.startsWith('file://'))
+    .map(uri => fileURLToPath(uri));
+  let roots = await canonicalizeRoots(paths);
+
+  if (operatorRoots.length > 0) {
+    roots = roots.filter(root => operatorRoots.some(allowed => isInside(allowed, root)));
+  }
+
+  const next = roots.length > 0 ? roots : operatorRoots.length > 0 ? operatorRoots : undefined;
+  if (!next) return;
+
+  // Inside a client session, only that session's roots change
+  const session = rootSessions.getStore();
+  if (session) {
+    session.roots = next;
+  } else {
+    activeRoots = next;
+  }
+}
+
+export function getAllowedRoots(): string[] {
+  return [...currentRoots()];
+}
+
+// Helper function to build the error for paths that escape the sandbox
+function outsideRootsError(requested: string): McpError {
+  return new McpError(
+    ErrorCode.InvalidParams,
+    `Path "${requested}" is outside the allowed workspace roots (${currentRoots().join(', ')})`
+  );
+}
+
+// Resolve a tool path argument against the primary root, following symlinks,
+// and make sure the result stays inside one of the allowed roots.
+export async function resolveWorkspacePath(requested: string | undefined): Promise<string> {
+  if (activeRoots.length === 0) {
+    await configureRoots([]);
+  }
+
+  const roots = currentRoots();
+  const target = path.resolve(roots[0], requested || '.');
+
+  let real: string;
+  try {
+    real = await fs.realpath(target);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Path does not exist: ${requested || '.'}`);
+  }
+
+  if (!roots.some(root => isInside(root, real))) {
+    throw outsideRootsError(requested || '.');
+  }
+  return real;
+}
+
+// Check a file discovered during a search before it is read or rewritten.
+// Symlinks that point outside the roots are refused here, before any write.
+export async function assertInsideRoots(filePath: string): Promise<void> {
+  let real: string;
+  try {
+    real = await fs.realpath(filePath);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Path does not exist: ${filePath}`);
+  }
+
+  if (!currentRoots().some(root => isInside(root, real))) {
+    throw outsideRootsError(filePath);
+  }
+}
+
+// Helper function to find the workspace root a resolved path belongs to
+export function findContainingRoot(filePath: string): string | undefined {
+  return currentRoots().find(root => isInside(root, filePath));
+}
+
+// Helper function to express a path relative to the primary root (with forward slashes), e.g. for patches
+export function toRootRelative(filePath: string): string {
+  const root = currentRoots()[0] ?? process.cwd();
+  const absolute = path.resolve(filePath);
+  const display = isInside(root, absolute) ? path.relative(root, absolute) : filePath;
+  return display.split(path.sep).join('/');
+}
@@ -0,0 +1,266 @@
+// Tokenizer and statement reader shared by the Java and C++ parsers.
+// Comments are dropped; string and character literals become single tokens.
+
+export type TokenType = 'identifier' | 'number' | 'string' | 'punct' | 'directive';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+  line: number;
+}
+
+// Two-character punctuators that matter when reading declarations
+const DOUBLE_PUNCTUATORS = new Set(['::', '->']);
+
+// Helper function to find where a C++ raw string literal (`R"delim( ... )delim"`) ends
+function rawStringEnd(content: string, quote: number): number {
+  const open = content.indexOf('(', quote);
+  if (open < 0) return content.length;
+  const delimiter = content.slice(quote + 1, open);
+  const close = content.indexOf(`)${delimiter}"`, open);
+  return close < 0 ? content.length : close + delimiter.length + 2;
+}
+
+// Split C-like source into tokens; with `directives`, preprocessor lines become single tokens
+export function tokenizeCLike(content: string, options: { directives: boolean }): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let lineStart = true;
+
+  const countLines = (text: string) => {
+    for (const char of text) if (char === '\n') line++;
+  };
+
+  for (let i = 0; i < content.length;) {
+    const char = content[i];
+
+    if (char === '\n') {
+      line++;
+      lineStart = true;
+      i++;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const startLine = line;
+
+    if (char === '#' && lineStart && options.directives) {
+      // A directive runs to the end of the line, including backslash continuations
+      let end = i;
+      while (end < content.length && content[end] !== '\n') {
+        if (content[end] === '\\' && content[end + 1] === '\n') end++;
+        else if (content.startsWith('\\\r\n', end)) end += 2;
+        end++;
+      }
+      const text = content.slice(i, end);
+      tokens.push({ type: 'directive', text: text.replace(/\\\r?\n/g, ' ').trim(), line: startLine });
+      countLines(text);
+      i = end;
+      continue;
+    }
+    lineStart = false;
+
+    if (content.startsWith('//', i)) {
+      while (i < content.length && content[i] !== '\n') i++;
+      continue;
+    }
+    if (content.startsWith('/*', i)) {
+      const end = content.indexOf('*/', i + 2);
+      const stop = end < 0 ? content.length : end + 2;
+      countLines(content.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let end: number;
+      if (char === '"' && content.startsWith('"""', i)) {
+        // Java text block
+        const close = content.indexOf('"""', i + 3);
+        end = close < 0 ? content.length : close + 3;
+      } else {
+        end = i + 1;
+        while (end < content.length && content[end] !== char && content[end] !== '\n') {
+          if (content[end] === '\\') end++;
+          end++;
+        }
+        end = Math.min(content.length, end + 1);
+      }
+      const text = content.slice(i, end);
+      tokens.push({ type: 'string', text, line: startLine });
+      countLines(text);
+      i = end;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_$][\w$]*/.exec(content.slice(i, i + 256));
+    if (identifier) {
+      // C++ raw string literals carry an R prefix (R"x(...)x", u8R"(...)", LR"(...)")
+      if (options.directives && /R$/.test(identifier[0]) && content[i + identifier[0].length] === '"') {
+        const end = rawStringEnd(content, i + identifier[0].length);
+        const text = content.slice(i, end);
+        tokens.push({ type: 'string', text, line: startLine });
+        countLines(text);
+        i = end;
+        continue;
+      }
+      tokens.push({ type: 'identifier', text: identifier[0], line: startLine });
+      i += identifier[0].length;
+      continue;
+    }
+
+    const number = /^\.?\d[\w.']*/.exec(content.slice(i, i + 256));
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], line: startLine });
+      i += number[0].length;
+      continue;
+    }
+
+    const pair = content.slice(i, i + 2);
+    const text = DOUBLE_PUNCTUATORS.has(pair) ? pair : char;
+    tokens.push({ type: 'punct', text, line: startLine });
+    i += text.length;
+  }
+
+  return tokens;
+}
+
+// Helper function to find the `}` matching the `{` at `open`; returns the last index when unbalanced
+export function matchingBrace(tokens: Token[], open: number): number {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    if (tokens[i].text === '{') depth++;
+    else if (tokens[i].text === '}' && --depth === 0) return i;
+  }
+  return tokens.length - 1;
+}
+
+// A declaration-level statement: the tokens before its terminator (`;`, `{` or an unexpected `}`)
+export interface Statement {
+  tokens: Token[];
+  terminator?: Token;
+  // Index of the terminator (or tokens.length when the input ran out)
+  end: number;
+}
+
+// Read one statement starting at `start`. Braces that belong to an initializer
+// (after `=`, or `x{1}` in a constructor initializer list) are kept inside the statement.
+export function readStatement(tokens: Token[], start: number): Statement {
+  const collected: Token[] = [];
+  let depth = 0;
+  let assigning = false;
+  let sawParameters = false;
+  let initializerList = false;
+
+  for (let i = start; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'directive') continue;
+
+    if (depth === 0) {
+      if (token.text === ';' || token.text === '}') {
+        return { tokens: collected, terminator: token, end: i };
+      }
+      if (token.text === '{') {
+        const previous = collected[collected.length - 1];
+        const braceInitializer = initializerList && previous && (previous.type === 'identifier' || previous.text === '>');
+        if (!assigning && !braceInitializer) {
+          return { tokens: collected, terminator: token, end: i };
+        }
+        const close = matchingBrace(tokens, i);
+        collected.push(...tokens.slice(i, close + 1));
+        i = close;
+        continue;
+      }
+      // `operator=` and friends are names, not assignments
+      if (token.text === '=' && !collected.some(previous => previous.text === 'operator')) assigning = true;
+      if (token.text === ':' && sawParameters) initializerList = true;
+    }
+
+    if (token.text === '(' || token.text === '[') depth++;
+    if (token.text === ')' || token.text === ']') {
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) sawParameters = true;
+    }
+    collected.push(token);
+  }
+
+  return { tokens: collected, end: tokens.length };
+}
+
+// Helper function to find the first `(` outside brackets that comes before any top-level `=`
+export function topLevelParen(tokens: Token[]): number {
+  let depth = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const text = tokens[i].text;
+    if (depth === 0 && text === 'operator') {
+      // Skip the operator symbol; `operator()` spells its own parentheses
+      let j = i + 1;
+      if (tokens[j]?.text === '(' && tokens[j + 1]?.text === ')') j += 2;
+      while (j < tokens.length && tokens[j].text !== '(') j++;
+      return j < tokens.length ? j : -1;
+    }
+    if (depth === 0 && text === '=') return -1;
+    if (depth === 0 && text === '(') return i;
+    if (text === '(' || text === '[') depth++;
+    if (text === ')' || text === ']') depth--;
+  }
+  return -1;
+}
+
+// Helper function to collect declarator names (`int a = 1, b[2];` gives a and b)
+export function declaratorNames(tokens: Token[]): Token[] {
+  const names: Token[] = [];
+  let depth = 0;
+  let angle = 0;
+  let initializing = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const text = token.text;
+    if (text === '(' || text === '[' || text === '{') depth++;
+    else if (text === ')' || text === ']' || text === '}') depth--;
+    else if (!initializing && depth === 0 && text === '<') angle++;
+    else if (!initializing && depth === 0 && text === '>') angle = Math.max(0, angle - 1);
+
+    if (depth !== 0 || angle !== 0) continue;
+    if (text === '=') initializing = true;
+    else if (text === ',') initializing = false;
+    else if (!initializing && token.type === 'identifier' && i > 0) {
+      const next = tokens[i + 1]?.text;
+      if (next === undefined || next === '=' || next === ',' || next === '[' || next === ';') {
+        names.push(token);
+      }
+    }
+  }
+  return names;
+}
+
+// Modifiers that are followed by generic type parameters (`public <T> T first()`)
+const MODIFIERS = new Set(['public', 'private', 'protected', 'static', 'final', 'abstract', 'synchronized', 'native', 'default']);
+
+// Helper function to render tokens as source text with conventional spacing
+export function joinTokens(tokens: Token[]): string {
+  let text = '';
+  let inOperatorName = false;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i].text;
+    const previous = tokens[i - 1]?.text;
+    const tight =
+      previous === undefined ||
+      // Operator names are written without spaces: `operator==`, `operator()`
+      (inOperatorName && token !== '(') ||
+      ['(', '[', '.', '::', '<', '@', '~', '!'].includes(previous) ||
+      [')', ']', ',', ';', '.', '::', '(', '['].includes(token) ||
+      (['<', '>'].includes(token) && !MODIFIERS.has(previous)) ||
+      // Pointer and reference declarators stick to their type: `char* s`, `const T& value`
+      (['*', '&'].includes(token) && (tokens[i - 1].type === 'identifier' || ['>', '*', '&'].includes(previous)));
+    text += tight ? token : ` ${token}`;
+
+    if (token === 'operator') inOperatorName = true;
+    else if (inOperatorName && token === '(' && !(previous === 'operator' && tokens[i + 1]?.text === ')')) inOperatorName = false;
+  }
+  return text;
+}
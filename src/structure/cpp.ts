@@ -0,0 +1,209 @@
+import { Declaration, normalizeSignature } from "./declarations.js";
+import {
+  Token,
+  declaratorNames,
+  joinTokens,
+  matchingBrace,
+  readStatement,
+  tokenizeCLike,
+  topLevelParen,
+} from "./clike.js";
+
+const CLASS_KEYWORDS = new Set(['class', 'struct', 'union']);
+const ACCESS_SPECIFIERS = new Set(['public', 'private', 'protected']);
+// Statements that never declare a function, class or variable of interest
+const SKIPPED_STATEMENTS = new Set(['using', 'typedef', 'friend', 'static_assert', 'return', 'goto', 'break', 'continue', 'delete']);
+const CONTROL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'sizeof', 'decltype', 'alignof', 'throw']);
+
+// Body being read: the file, a namespace or the members of a class
+interface CppScope {
+  type: 'file' | 'namespace' | 'class';
+  name?: string;
+  exported: boolean;
+  access: 'public' | 'private';
+}
+
+// Helper function to drop a leading `template <...>` clause
+function stripTemplate(tokens: Token[]): Token[] {
+  let i = 0;
+  while (tokens[i]?.text === 'template' && tokens[i + 1]?.text === '<') {
+    let depth = 0;
+    for (i = i + 1; i < tokens.length; i++) {
+      if (tokens[i].text === '<') depth++;
+      else if (tokens[i].text === '>' && --depth === 0) break;
+    }
+    i++;
+  }
+  return i === 0 ? tokens : tokens.slice(i);
+}
+
+// Helper function to read the (possibly qualified) function name ending just before `paren`
+function functionName(tokens: Token[], paren: number): { name: string; qualifier?: string; start: number } | null {
+  let start = paren - 1;
+  let name: string;
+
+  const operator = tokens.findIndex((token, index) => index < paren && token.text === 'operator');
+  if (operator >= 0) {
+    start = operator;
+    name = tokens.slice(operator, paren).map(token => token.text).join('');
+  } else if (tokens[start]?.type === 'identifier') {
+    name = tokens[start].text;
+    if (tokens[start - 1]?.text === '~') {
+      start--;
+      name = `~${name}`;
+    }
+  } else {
+    return null;
+  }
+
+  const qualifiers: string[] = [];
+  while (tokens[start - 1]?.text === '::' && tokens[start - 2]?.type === 'identifier') {
+    qualifiers.unshift(tokens[start - 2].text);
+    start -= 2;
+  }
+  return { name, qualifier: qualifiers.length > 0 ? qualifiers.join('::') : undefined, start };
+}
+
+// Extract declarations from C or C++ source
+export function parseCpp(content: string): Declaration[] {
+  const tokens = tokenizeCLike(content, { directives: true });
+  const declarations: Declaration[] = [];
+
+  // Read declarations from `start` until the closing brace of the scope (or the end of the file)
+  const readBody = (start: number, scope: CppScope): number => {
+    let i = start;
+
+    while (i < tokens.length) {
+      const token = tokens[i];
+
+      if (token.type === 'directive') {
+        const include = /^#\s*include\s*([<"])([^>"]+)[>"]/.exec(token.text);
+        if (include) {
+          declarations.push({
+            kind: 'import',
+            name: include[2],
+            signature: normalizeSignature(token.text),
+            startLine: token.line,
+            endLine: token.line,
+            exported: false,
+            async: false,
+          });
+        }
+        i++;
+        continue;
+      }
+
+      // Access specifiers inside class bodies
+      if (scope.type === 'class' && ACCESS_SPECIFIERS.has(token.text) && tokens[i + 1]?.text === ':') {
+        scope.access = token.text === 'public' ? 'public' : 'private';
+        i += 2;
+        continue;
+      }
+
+      const statement = readStatement(tokens, i);
+      const terminator = statement.terminator;
+      if (!terminator) {
+        return statement.end;
+      }
+      if (terminator.text === '}' && statement.tokens.length === 0) {
+        if (scope.type !== 'file') return statement.end;
+        i = statement.end + 1;
+        continue;
+      }
+
+      const raw = statement.tokens;
+      const parts = stripTemplate(raw);
+      const startLine = (raw[0] ?? terminator).line;
+      const opensBody = terminator.text === '{';
+      const bodyEnd = opensBody ? matchingBrace(tokens, statement.end) : statement.end;
+      let next = bodyEnd + 1;
+
+      const first = parts[0]?.text;
+      const isStatic = parts.some(part => part.text === 'static');
+      const exported = scope.type === 'class'
+        ? scope.exported && scope.access === 'public'
+        : scope.exported && !isStatic;
+      const classIndex = parts.findIndex(part => CLASS_KEYWORDS.has(part.text));
+      const paren = topLevelParen(parts);
+
+      if (first === 'namespace' && opensBody) {
+        const name = parts.slice(1).map(part => part.text).join('');
+        next = readBody(statement.end + 1, { type: 'namespace', name: name || undefined, exported: scope.exported && name.length > 0, access: 'public' }) + 1;
+      } else if (first === 'extern' && parts[1]?.type === 'string' && opensBody) {
+        // extern "C" { ... } does not open a scope of its own
+        next = readBody(statement.end + 1, scope) + 1;
+      } else if (first && SKIPPED_STATEMENTS.has(first)) {
+        // Nothing to record
+      } else if (classIndex >= 0 && classIndex <= 2 && opensBody && paren < 0) {
+        // The class name is the last identifier before the base clause (skips export macros and `final`)
+        const header: Token[] = [];
+        for (const part of parts.slice(classIndex + 1)) {
+          if (part.text === ':' || part.text === '{') break;
+          header.push(part);
+        }
+        const name = header.filter(part => part.type === 'identifier' && part.text !== 'final').pop()?.text ?? '(anonymous)';
+        declarations.push({
+          kind: 'class',
+          name,
+          signature: normalizeSignature(joinTokens(raw)),
+          enclosingClass: scope.type === 'class' ? scope.name : undefined,
+          startLine,
+          endLine: tokens[bodyEnd].line,
+          exported,
+          async: false,
+        });
+        const access = parts[classIndex].text === 'class' ? 'private' : 'public';
+        next = readBody(statement.end + 1, { type: 'class', name, exported, access }) + 1;
+      } else if (first === 'enum' || (classIndex >= 0 && paren < 0)) {
+        // Enums, forward declarations and struct variables are skipped
+      } else if (paren > 0) {
+        const found = functionName(parts, paren);
+        const returnType = found ? parts.slice(0, found.start).filter(part => !['inline', 'static', 'virtual', 'explicit', 'constexpr', 'extern'].includes(part.text)) : [];
+        const isConstructor = !!found && (
+          (scope.type === 'class' && (found.name === scope.name || found.name === `~${scope.name}`)) ||
+          (!!found.qualifier && (found.name === found.qualifier.split('::').pop() || found.name === `~${found.qualifier.split('::').pop()}`))
+        );
+
+        // Without a return type this is a macro invocation rather than a declaration
+        if (found && !CONTROL_KEYWORDS.has(found.name) && (returnType.length > 0 || isConstructor)) {
+          const enclosingClass = scope.type === 'class' ? scope.name : found.qualifier?.split('::').pop();
+          // Constructor initializer lists are not part of the signature
+          const initializerList = isConstructor ? raw.findIndex((part, index) => index > raw.indexOf(parts[paren]) && part.text === ':') : -1;
+          declarations.push({
+            kind: scope.type === 'class' || found.qualifier ? 'method' : 'function',
+            name: found.name,
+            signature: normalizeSignature(joinTokens(initializerList >= 0 ? raw.slice(0, initializerList) : raw)),
+            enclosingClass,
+            startLine,
+            endLine: tokens[bodyEnd].line,
+            exported,
+            async: false,
+          });
+        }
+      } else if (terminator.text === ';' && parts.length > 1) {
+        const assignment = parts.findIndex(part => part.text === '=');
+        for (const name of declaratorNames(parts)) {
+          declarations.push({
+            kind: 'variable',
+            name: name.text,
+            signature: normalizeSignature(joinTokens(assignment >= 0 ? raw.slice(0, raw.indexOf(parts[assignment])) : raw)),
+            enclosingClass: scope.type === 'class' ? scope.name : undefined,
+            startLine,
+            endLine: terminator.line,
+            exported,
+            async: false,
+          });
+        }
+      }
+
+      if (terminator.text === '}' && scope.type !== 'file') {
+        return statement.end;
+      }
+      i = next;
+    }
+    return tokens.length;
+  };
+
+  readBody(0, { type: 'file', exported: true, access: 'public' });
+  return declarations;
+}
@@ -0,0 +1,30 @@
+// Declarations found by the structural indexer
+
+export type StructureKind = 'function' | 'class' | 'method' | 'import' | 'variable';
+export type StructureLanguage = 'js' | 'ts' | 'py' | 'java' | 'cpp';
+
+export interface Declaration {
+  kind: StructureKind;
+  name: string;
+  // Declaration header without its body, on one line
+  signature: string;
+  // Name of the class (or interface/struct) the declaration belongs to
+  enclosingClass?: string;
+  startLine: number;
+  endLine: number;
+  // Visible outside its module: `export` in js/ts, `public` in java, external linkage in cpp,
+  // no leading underscore in py
+  exported: boolean;
+  async: boolean;
+}
+
+// Longest signature kept before it is cut with an ellipsis
+const MAX_SIGNATURE_LENGTH = 200;
+
+// Helper function to put a declaration header on one line
+export function normalizeSignature(text: string): string {
+  const collapsed = text.replace(/\s+/g, ' ').replace(/([([]) /g, '$1').replace(/ ([)\]])/g, '$1').trim();
+  return collapsed.length > MAX_SIGNATURE_LENGTH
+    ? `${collapsed.slice(0, MAX_SIGNATURE_LENGTH - 1)}…`
+    : collapsed;
+}
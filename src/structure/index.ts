@@ -0,0 +1,140 @@
+import path from "path";
+import fs from "fs/promises";
+import { FileFilter } from "../ignore.js";
+import { Declaration, StructureKind, StructureLanguage } from "./declarations.js";
+import { parseCpp } from "./cpp.js";
+import { parseJava } from "./java.js";
+import { parsePython } from "./python.js";
+import { parseTypeScript } from "./typescript.js";
+
+export type { Declaration, StructureKind, StructureLanguage } from "./declarations.js";
+
+// Source file extensions indexed for each language
+const LANGUAGE_EXTENSIONS: Record<StructureLanguage, string[]> = {
+  js: ['.js', '.jsx', '.mjs', '.cjs'],
+  ts: ['.ts', '.tsx', '.mts', '.cts'],
+  py: ['.py', '.pyi'],
+  java: ['.java'],
+  cpp: ['.c', '.cc', '.cpp', '.cxx', '.h', '.hh', '.hpp', '.hxx'],
+};
+
+// Directories that never contain project sources worth indexing
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '__pycache__']);
+
+// Larger files are almost always generated or minified and are not parsed
+const MAX_SOURCE_BYTES = 2 * 1024 * 1024;
+
+export interface DeclarationFilter {
+  kind: StructureKind;
+  name?: RegExp;
+  exported?: boolean;
+  async?: boolean;
+}
+
+export interface FileDeclarations {
+  file: string;
+  declarations: Declaration[];
+}
+
+export interface StructureIndex {
+  files: FileDeclarations[];
+  totalDeclarations: number;
+  filesScanned: number;
+  // Stopped at maxResults, so more declarations may match
+  truncated: boolean;
+}
+
+// Parse one source file into declarations
+export function parseDeclarations(filePath: string, content: string, language: StructureLanguage): Declaration[] {
+  switch (language) {
+    case 'js':
+    case 'ts':
+      return parseTypeScript(filePath, content);
+    case 'py':
+      return parsePython(content);
+    case 'java':
+      return parseJava(content);
+    case 'cpp':
+      return parseCpp(content);
+  }
+}
+
+// Helper function to list the source files of a language below a path (symlinks are not followed).
+// With a filter, rejected directories are not entered and rejected files are left out.
+export async function collectSourceFiles(
+  searchPath: string,
+  language: StructureLanguage,
+  fileFilter?: FileFilter
+): Promise<string[]> {
+  const extensions = LANGUAGE_EXTENSIONS[language];
+  const stats = await fs.stat(searchPath);
+  if (stats.isFile()) {
+    return !fileFilter || await fileFilter.accepts(searchPath) ? [searchPath] : [];
+  }
+
+  const files: string[] = [];
+  const walk = async (dir: string) => {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name.startsWith('.') || SKIPPED_DIRECTORIES.has(entry.name)) continue;
+        if (fileFilter && !(await fileFilter.accepts(entryPath, true))) continue;
+        await walk(entryPath);
+      } else if (entry.isFile() && extensions.includes(path.extname(entry.name).toLowerCase())) {
+        if (fileFilter && !(await fileFilter.accepts(entryPath))) continue;
+        files.push(entryPath);
+      }
+    }
+  };
+  await walk(searchPath);
+  return files.sort();
+}
+
+// Helper function to test a declaration against the filter
+function matchesFilter(declaration: Declaration, filter: DeclarationFilter): boolean {
+  return (
+    declaration.kind === filter.kind &&
+    (!filter.name || filter.name.test(declaration.name)) &&
+    (filter.exported === undefined || declaration.exported === filter.exported) &&
+    (filter.async === undefined || declaration.async === filter.async)
+  );
+}
+
+// Index the declarations below a path and keep those matching the filter
+export async function findDeclarations(
+  searchPath: string,
+  language: StructureLanguage,
+  filter: DeclarationFilter,
+  maxResults: number,
+  fileFilter?: FileFilter
+): Promise<StructureIndex> {
+  const index: StructureIndex = { files: [], totalDeclarations: 0, filesScanned: 0, truncated: false };
+
+  for (const file of await collectSourceFiles(searchPath, language, fileFilter)) {
+    const stats = await fs.stat(file);
+    if (stats.size > MAX_SOURCE_BYTES) continue;
+
+    const content = await fs.readFile(file, 'utf-8');
+    index.filesScanned++;
+
+    let declarations = parseDeclarations(file, content, language).filter(declaration => matchesFilter(declaration, filter));
+    if (declarations.length === 0) continue;
+
+    const remaining = maxResults - index.totalDeclarations;
+    if (declarations.length > remaining) {
+      declarations = declarations.slice(0, remaining);
+      index.truncated = true;
+    }
+    index.files.push({ file, declarations });
+    index.totalDeclarations += declarations.length;
+    if (index.truncated) break;
+  }
+
+  return index;
+}
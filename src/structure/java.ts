@@ -0,0 +1,162 @@
+import { Declaration, normalizeSignature } from "./declarations.js";
+import {
+  Token,
+  declaratorNames,
+  joinTokens,
+  matchingBrace,
+  readStatement,
+  tokenizeCLike,
+  topLevelParen,
+} from "./clike.js";
+
+const TYPE_KEYWORDS = new Set(['class', 'interface', 'enum', 'record']);
+
+// Body being read: the file itself or the members of a type
+interface JavaScope {
+  type: 'file' | 'class' | 'interface' | 'enum';
+  name?: string;
+  exported: boolean;
+}
+
+// Helper function to drop annotations (`@Override`, `@SuppressWarnings("x")`) from a statement
+function stripAnnotations(tokens: Token[]): Token[] {
+  const result: Token[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].text === '@' && tokens[i + 1]?.text !== 'interface') {
+      i++;
+      // Qualified annotation names
+      while (tokens[i + 1]?.text === '.' && tokens[i + 2]) i += 2;
+      if (tokens[i + 1]?.text === '(') {
+        let depth = 0;
+        for (i = i + 1; i < tokens.length; i++) {
+          if (tokens[i].text === '(') depth++;
+          else if (tokens[i].text === ')' && --depth === 0) break;
+        }
+      }
+      continue;
+    }
+    result.push(tokens[i]);
+  }
+  return result;
+}
+
+// Extract declarations from Java source
+export function parseJava(content: string): Declaration[] {
+  const tokens = tokenizeCLike(content, { directives: false });
+  const declarations: Declaration[] = [];
+
+  // Read declarations from `start` until the closing brace of the scope (or the end of the file)
+  const readBody = (start: number, scope: JavaScope): number => {
+    let i = start;
+
+    // Enum constants come first and end at the first top-level semicolon
+    if (scope.type === 'enum') {
+      let depth = 0;
+      for (; i < tokens.length; i++) {
+        const text = tokens[i].text;
+        if (text === '(' || text === '{') depth++;
+        else if (text === ')' || (text === '}' && depth > 0)) depth--;
+        else if (text === '}' && depth === 0) return i;
+        else if (text === ';' && depth === 0) {
+          i++;
+          break;
+        }
+      }
+    }
+
+    while (i < tokens.length) {
+      const statement = readStatement(tokens, i);
+      const terminator = statement.terminator;
+      if (!terminator) {
+        return statement.end;
+      }
+      if (terminator.text === '}' && statement.tokens.length === 0) {
+        // A stray closing brace at file level is skipped
+        if (scope.type !== 'file') return statement.end;
+        i = statement.end + 1;
+        continue;
+      }
+
+      const raw = statement.tokens;
+      const parts = stripAnnotations(raw);
+      const startLine = (raw[0] ?? terminator).line;
+      const modifiers = new Set(parts.filter(token => token.type === 'identifier').map(token => token.text));
+      const opensBody = terminator.text === '{';
+      const bodyEnd = opensBody ? matchingBrace(tokens, statement.end) : statement.end;
+      let next = bodyEnd + 1;
+
+      // `@interface` (annotation types) is read like an interface
+      const keywordIndex = parts.findIndex(token => TYPE_KEYWORDS.has(token.text));
+      const isPublic = modifiers.has('public') || (scope.type === 'interface' && !modifiers.has('private'));
+      const memberExported = scope.type === 'file' ? modifiers.has('public') : scope.exported && isPublic;
+
+      if (parts[0]?.text === 'import') {
+        const name = parts.slice(1).filter(token => token.text !== 'static').map(token => token.text).join('');
+        declarations.push({
+          kind: 'import',
+          name,
+          signature: normalizeSignature(`${joinTokens(parts)};`),
+          startLine,
+          endLine: terminator.line,
+          exported: false,
+          async: false,
+        });
+      } else if (keywordIndex >= 0 && opensBody && parts[keywordIndex + 1]?.type === 'identifier') {
+        // Nested and top-level types
+        const keyword = parts[keywordIndex].text;
+        const name = parts[keywordIndex + 1].text;
+        declarations.push({
+          kind: 'class',
+          name,
+          signature: normalizeSignature(joinTokens(parts)),
+          enclosingClass: scope.name,
+          startLine,
+          endLine: tokens[bodyEnd].line,
+          exported: memberExported,
+          async: false,
+        });
+        const type = keyword === 'enum' ? 'enum' : keyword === 'interface' ? 'interface' : 'class';
+        next = readBody(statement.end + 1, { type, name, exported: memberExported }) + 1;
+      } else if (scope.type !== 'file' && parts.length > 0) {
+        const paren = topLevelParen(parts);
+        if (paren > 0 && parts[paren - 1].type === 'identifier') {
+          // Methods and constructors; the signature stops before the body or the semicolon
+          declarations.push({
+            kind: 'method',
+            name: parts[paren - 1].text,
+            signature: normalizeSignature(joinTokens(parts)),
+            enclosingClass: scope.name,
+            startLine,
+            endLine: tokens[bodyEnd].line,
+            exported: memberExported,
+            async: false,
+          });
+        } else if (terminator.text === ';') {
+          const assignment = parts.findIndex(token => token.text === '=');
+          for (const name of declaratorNames(parts)) {
+            declarations.push({
+              kind: 'variable',
+              name: name.text,
+              signature: normalizeSignature(joinTokens(assignment >= 0 ? parts.slice(0, assignment) : parts)),
+              enclosingClass: scope.name,
+              startLine,
+              endLine: terminator.line,
+              exported: memberExported,
+              async: false,
+            });
+          }
+        }
+      }
+
+      if (terminator.text === '}' && scope.type !== 'file') {
+        // The statement ran into the end of the scope
+        return statement.end;
+      }
+      i = next;
+    }
+    return tokens.length;
+  };
+
+  readBody(0, { type: 'file', exported: true });
+  return declarations;
+}
@@ -0,0 +1,237 @@
+import { Declaration, normalizeSignature } from "./declarations.js";
+
+// One logical line of Python source: bracketed and backslash-continued lines are joined,
+// comments are dropped and string literals are kept as-is
+interface LogicalLine {
+  text: string;
+  indent: number;
+  startLine: number;
+  endLine: number;
+}
+
+const PYTHON_KEYWORDS = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue',
+  'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in',
+  'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield',
+]);
+
+// Helper function to split Python source into logical lines
+function splitLogicalLines(content: string): LogicalLine[] {
+  const lines: LogicalLine[] = [];
+  let text = '';
+  let depth = 0;
+  let line = 1;
+  let startLine = 1;
+  let indent = 0;
+  let atLineStart = true;
+
+  const finishLine = () => {
+    if (text.trim().length > 0) {
+      lines.push({ text: text.trim(), indent, startLine, endLine: line });
+    }
+    text = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (atLineStart) {
+      // Measure indentation at the start of a new logical line
+      let width = 0;
+      while (i < content.length && (content[i] === ' ' || content[i] === '\t' || content[i] === '\f')) {
+        width = content[i] === '\t' ? width + 8 - (width % 8) : width + 1;
+        i++;
+      }
+      indent = width;
+      startLine = line;
+      atLineStart = false;
+      i--;
+      continue;
+    }
+
+    if (char === '#') {
+      while (i + 1 < content.length && content[i + 1] !== '\n') i++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      // Copy the whole string literal, including escapes and newlines inside triple quotes
+      const quote = content.startsWith(char.repeat(3), i) ? char.repeat(3) : char;
+      let end = i + quote.length;
+      while (end < content.length && !content.startsWith(quote, end)) {
+        if (content[end] === '\\') end++;
+        else if (content[end] === '\n' && quote.length === 1) break;
+        end++;
+      }
+      end = Math.min(content.length, end + quote.length);
+      const literal = content.slice(i, end);
+      for (const c of literal) if (c === '\n') line++;
+      text += literal;
+      i = end - 1;
+      continue;
+    }
+
+    if (char === '\\' && (content[i + 1] === '\n' || content.startsWith('\r\n', i + 1))) {
+      text += ' ';
+      line++;
+      i += content[i + 1] === '\r' ? 2 : 1;
+      continue;
+    }
+
+    if (char === '\n') {
+      if (depth > 0) {
+        text += ' ';
+      } else {
+        finishLine();
+        atLineStart = true;
+      }
+      line++;
+      continue;
+    }
+
+    if (char === '(' || char === '[' || char === '{') depth++;
+    if ((char === ')' || char === ']' || char === '}') && depth > 0) depth--;
+    if (char !== '\r') text += char;
+  }
+
+  finishLine();
+  return lines;
+}
+
+// Helper function to cut a compound statement at the colon that opens its body
+function statementHeader(text: string): string {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"' || char === "'") {
+      const close = text.indexOf(char, i + 1);
+      if (close < 0) break;
+      i = close;
+    } else if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth--;
+    } else if (char === ':' && depth === 0) {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+}
+
+// Helper function to tell whether a Python name is meant to be public
+function isPublicName(name: string): boolean {
+  return !name.startsWith('_') || (name.startsWith('__') && name.endsWith('__'));
+}
+
+interface Scope {
+  indent: number;
+  type: 'class' | 'function';
+  name: string;
+  exported: boolean;
+  declaration: Declaration;
+}
+
+// Extract declarations from Python source with an indentation-aware tokenizer
+export function parsePython(content: string): Declaration[] {
+  const declarations: Declaration[] = [];
+  const scopes: Scope[] = [];
+  let lastEndLine = 0;
+  let decoratorStart: number | undefined;
+
+  for (const logical of splitLogicalLines(content)) {
+    // Close the blocks this line is no longer part of
+    while (scopes.length > 0 && logical.indent <= scopes[scopes.length - 1].indent) {
+      scopes.pop()!.declaration.endLine = lastEndLine;
+    }
+    lastEndLine = logical.endLine;
+
+    const scope = scopes[scopes.length - 1];
+    const inClass = scope?.type === 'class';
+    const inFunction = scopes.some(entry => entry.type === 'function');
+    const text = logical.text;
+
+    if (text.startsWith('@')) {
+      decoratorStart ??= logical.startLine;
+      continue;
+    }
+    const startLine = decoratorStart ?? logical.startLine;
+    decoratorStart = undefined;
+
+    const definition = /^(async\s+)?def\s+([A-Za-z_]\w*)/.exec(text);
+    const classDefinition = /^class\s+([A-Za-z_]\w*)/.exec(text);
+
+    if (definition || classDefinition) {
+      const name = definition ? definition[2] : classDefinition![1];
+      const exported = isPublicName(name) && (scope ? inClass && scope.exported : true);
+      const declaration: Declaration = {
+        kind: classDefinition ? 'class' : inClass ? 'method' : 'function',
+        name,
+        signature: normalizeSignature(statementHeader(text)),
+        enclosingClass: inClass ? scope.name : undefined,
+        startLine,
+        endLine: logical.endLine,
+        exported,
+        async: !!definition?.[1],
+      };
+      declarations.push(declaration);
+      scopes.push({ indent: logical.indent, type: classDefinition ? 'class' : 'function', name, exported, declaration });
+      continue;
+    }
+
+    const importStatement = /^import\s+(.+)$/.exec(text);
+    if (importStatement) {
+      for (const part of importStatement[1].split(',')) {
+        const module = part.trim().split(/\s+as\s+/)[0].trim();
+        if (!module) continue;
+        declarations.push({
+          kind: 'import',
+          name: module,
+          signature: normalizeSignature(text),
+          startLine,
+          endLine: logical.endLine,
+          exported: false,
+          async: false,
+        });
+      }
+      continue;
+    }
+
+    const fromImport = /^from\s+(\S+)\s+import\b/.exec(text);
+    if (fromImport) {
+      declarations.push({
+        kind: 'import',
+        name: fromImport[1],
+        signature: normalizeSignature(text),
+        startLine,
+        endLine: logical.endLine,
+        exported: false,
+        async: false,
+      });
+      continue;
+    }
+
+    // Module and class level assignments (`x = 1`, `x: int = 1`, or a bare `x: int` in a class body)
+    if (!inFunction) {
+      const assignment = /^([A-Za-z_]\w*)\s*(:[^=]+)?=(?!=)/.exec(text) ?? (inClass ? /^([A-Za-z_]\w*)\s*:[^=]+$/.exec(text) : null);
+      if (assignment && !PYTHON_KEYWORDS.has(assignment[1])) {
+        const name = assignment[1];
+        const equals = text.search(/=(?!=)/);
+        declarations.push({
+          kind: 'variable',
+          name,
+          signature: normalizeSignature(equals >= 0 ? text.slice(0, equals) : text),
+          enclosingClass: inClass ? scope.name : undefined,
+          startLine,
+          endLine: logical.endLine,
+          exported: isPublicName(name) && (scope ? scope.exported : true),
+          async: false,
+        });
+      }
+    }
+  }
+
+  for (const scope of scopes) {
+    scope.declaration.endLine = lastEndLine;
+  }
+  return declarations;
+}
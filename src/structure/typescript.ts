@@ -0,0 +1,202 @@
+import ts from "typescript";
+import { Declaration, StructureKind, normalizeSignature } from "./declarations.js";
+
+// Helper function to pick the script kind from the file extension
+function scriptKindFor(filePath: string): ts.ScriptKind {
+  if (/\.tsx$/i.test(filePath)) return ts.ScriptKind.TSX;
+  if (/\.jsx$/i.test(filePath)) return ts.ScriptKind.JSX;
+  if (/\.[mc]?js$/i.test(filePath)) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+// Helper function to check a node for a modifier keyword
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some(modifier => modifier.kind === kind);
+}
+
+// Helper function to tell whether a node is a function-like value (arrow function or function expression)
+function isFunctionValue(node: ts.Node | undefined): node is ts.ArrowFunction | ts.FunctionExpression {
+  return !!node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+}
+
+// Helper function to get the module name from `require("x")`
+function requiredModule(node: ts.Node | undefined): string | undefined {
+  if (
+    node && ts.isCallExpression(node) &&
+    ts.isIdentifier(node.expression) && node.expression.text === 'require' &&
+    node.arguments.length === 1 && ts.isStringLiteralLike(node.arguments[0])
+  ) {
+    return node.arguments[0].text;
+  }
+  return undefined;
+}
+
+// Helper function to collect names exported through `export { a, b as c }` and `export default a`
+function collectExportedNames(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      for (const element of statement.exportClause.elements) {
+        names.add((element.propertyName ?? element.name).text);
+      }
+    } else if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+      names.add(statement.expression.text);
+    }
+  }
+  return names;
+}
+
+// Extract declarations from JavaScript or TypeScript source using the TypeScript compiler API
+export function parseTypeScript(filePath: string, content: string): Declaration[] {
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKindFor(filePath));
+  const exportedNames = collectExportedNames(sourceFile);
+  const declarations: Declaration[] = [];
+
+  const lineOf = (position: number) => sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+
+  // Header text from the start of the node up to (not including) its body
+  const header = (node: ts.Node, bodyStart?: number) =>
+    normalizeSignature(content.slice(node.getStart(sourceFile), bodyStart ?? node.getEnd()).replace(/\s*(=>|=|\{|;)?\s*$/, ''));
+
+  const add = (
+    kind: StructureKind,
+    name: string,
+    node: ts.Node,
+    signature: string,
+    extra: { enclosingClass?: string; exported: boolean; async?: boolean }
+  ) => {
+    declarations.push({
+      kind,
+      name,
+      signature,
+      enclosingClass: extra.enclosingClass,
+      startLine: lineOf(node.getStart(sourceFile)),
+      endLine: lineOf(node.getEnd()),
+      exported: extra.exported,
+      async: extra.async ?? false,
+    });
+  };
+
+  const isExported = (node: ts.Node, name: string | undefined) =>
+    hasModifier(node, ts.SyntaxKind.ExportKeyword) || (!!name && exportedNames.has(name));
+
+  // Class members are visible outside the module when the class is exported and the member is not private
+  const isMemberExported = (member: ts.ClassElement | ts.TypeElement, classExported: boolean) =>
+    classExported &&
+    !hasModifier(member, ts.SyntaxKind.PrivateKeyword) &&
+    !(member.name && ts.isPrivateIdentifier(member.name));
+
+  const visitClassLike = (node: ts.ClassLikeDeclaration | ts.InterfaceDeclaration, name: string, exported: boolean) => {
+    add('class', name, node, header(node, node.members.pos), { exported });
+
+    for (const member of node.members) {
+      const memberName = member.name ? member.name.getText(sourceFile) : undefined;
+      const memberExported = isMemberExported(member, exported);
+
+      if (ts.isMethodDeclaration(member) || ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) {
+        add('method', memberName ?? '(anonymous)', member, header(member, member.body?.getStart(sourceFile)), {
+          enclosingClass: name,
+          exported: memberExported,
+          async: hasModifier(member, ts.SyntaxKind.AsyncKeyword),
+        });
+        if (member.body) visit(member.body, true);
+      } else if (ts.isConstructorDeclaration(member)) {
+        add('method', 'constructor', member, header(member, member.body?.getStart(sourceFile)), {
+          enclosingClass: name,
+          exported: memberExported,
+        });
+        if (member.body) visit(member.body, true);
+      } else if (ts.isMethodSignature(member)) {
+        add('method', memberName ?? '(anonymous)', member, header(member), { enclosingClass: name, exported: memberExported });
+      } else if (ts.isPropertyDeclaration(member) && isFunctionValue(member.initializer)) {
+        // Arrow functions assigned to class fields behave like methods
+        add('method', memberName ?? '(anonymous)', member, header(member, member.initializer.body.getStart(sourceFile)), {
+          enclosingClass: name,
+          exported: memberExported,
+          async: hasModifier(member.initializer, ts.SyntaxKind.AsyncKeyword),
+        });
+        visit(member.initializer.body, true);
+      } else if (ts.isPropertyDeclaration(member) || ts.isPropertySignature(member)) {
+        const initializer = ts.isPropertyDeclaration(member) ? member.initializer : undefined;
+        add('variable', memberName ?? '(anonymous)', member, header(member, initializer?.getStart(sourceFile)), {
+          enclosingClass: name,
+          exported: memberExported,
+        });
+      }
+    }
+  };
+
+  // Visit a subtree; local variables inside function bodies are not declarations of interest
+  const visit = (node: ts.Node, inFunction: boolean): void => {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteralLike(node.moduleSpecifier)) {
+      add('import', node.moduleSpecifier.text, node, header(node), { exported: false });
+      return;
+    }
+
+    if (ts.isImportEqualsDeclaration(node)) {
+      const reference = node.moduleReference;
+      const name = ts.isExternalModuleReference(reference) && ts.isStringLiteralLike(reference.expression)
+        ? reference.expression.text
+        : reference.getText(sourceFile);
+      add('import', name, node, header(node), { exported: isExported(node, undefined) });
+      return;
+    }
+
+    if (ts.isFunctionDeclaration(node)) {
+      const name = node.name?.text ?? 'default';
+      add('function', name, node, header(node, node.body?.getStart(sourceFile)), {
+        exported: isExported(node, node.name?.text),
+        async: hasModifier(node, ts.SyntaxKind.AsyncKeyword),
+      });
+      if (node.body) visit(node.body, true);
+      return;
+    }
+
+    if (ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node)) {
+      const name = node.name?.text ?? 'default';
+      visitClassLike(node, name, isExported(node, node.name?.text));
+      return;
+    }
+
+    if (ts.isVariableStatement(node)) {
+      const keyword = (node.declarationList.flags & ts.NodeFlags.Const) ? 'const'
+        : (node.declarationList.flags & ts.NodeFlags.Let) ? 'let' : 'var';
+      const statementExported = hasModifier(node, ts.SyntaxKind.ExportKeyword);
+
+      for (const declaration of node.declarationList.declarations) {
+        const name = declaration.name.getText(sourceFile);
+        const exported = statementExported || exportedNames.has(name);
+        const initializer = declaration.initializer;
+        const module = requiredModule(initializer);
+
+        if (module) {
+          add('import', module, node, header(node), { exported });
+        } else if (isFunctionValue(initializer)) {
+          add('function', name, declaration, `${keyword} ${header(declaration, initializer.body.getStart(sourceFile))}`, {
+            exported,
+            async: hasModifier(initializer, ts.SyntaxKind.AsyncKeyword),
+          });
+          visit(initializer.body, true);
+        } else if (initializer && ts.isClassExpression(initializer)) {
+          visitClassLike(initializer, name, exported);
+        } else {
+          if (!inFunction) {
+            add('variable', name, declaration, `${keyword} ${header(declaration, initializer?.getStart(sourceFile))}`, { exported });
+          }
+          if (initializer) visit(initializer, inFunction);
+        }
+      }
+      return;
+    }
+
+    if (ts.isFunctionLike(node) && 'body' in node && node.body) {
+      ts.forEachChild(node, child => visit(child, true));
+      return;
+    }
+
+    ts.forEachChild(node, child => visit(child, inFunction));
+  };
+
+  ts.forEachChild(sourceFile, node => visit(node, false));
+  return declarations;
+}
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { defineTool } from "../registry.js";
+import { findContainingRoot } from "../sandbox.js";
+import { updateIndex } from "../trigram/index.js";
+
+// Zod schemas for tool parameters
+const BuildIndexSchema = z.object({
+  path: z.string().optional().describe("Any path inside the workspace root to index (defaults to the primary root)"),
+  rebuild: z.boolean().optional().default(false).describe("Discard the existing index and re-read every file"),
+});
+
+export const buildIndexTool = defineTool({
+  name: "build_index",
+  description: "Build or incrementally update the on-disk trigram index that basic_search and boolean_search use to skip files that cannot match",
+  schema: BuildIndexSchema,
+  writesFiles: true,
+  handler: async (args) => {
+    try {
+      const root = findContainingRoot(args.path) ?? args.path;
+      const stats = await updateIndex(root, { rebuild: args.rebuild });
+
+      let summary = `🗃️ **Search Index ${args.rebuild ? 'Rebuilt' : 'Updated'}**\n\n`;
+      summary += `Root: \`${stats.root}\`\n`;
+      summary += `Index: \`${stats.indexFile}\`\n\n`;
+      summary += `📄 ${stats.files} file(s) indexed\n`;
+      summary += `➕ ${stats.added} added, ✏️ ${stats.changed} changed, ➖ ${stats.removed} removed, ${stats.unchanged} unchanged\n`;
+      if (stats.unindexed > 0) {
+        summary += `⚠️ ${stats.unindexed} binary or oversized file(s) are not indexed and are always searched\n`;
+      }
+      summary += `⏱️ ${stats.durationMs}ms\n`;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: summary
+          },
+          {
+            type: "text",
+            text: JSON.stringify(stats, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error building index: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ],
+        isError: true
+      };
+    }
+  },
+});
+
+export const indexingTools = [
+  buildIndexTool,
+];
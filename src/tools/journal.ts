@@ -0,0 +1,176 @@
+import { z } from "zod";
+import fs from "fs/promises";
+import { defineTool } from "../registry.js";
+import {
+  findLegacyBackups,
+  getJournalDir,
+  listChangesets,
+  pruneChangesets,
+  undoChangeset,
+} from "../journal.js";
+import { notifyFilesChanged } from "../watcher.js";
+
+// Zod schemas for tool parameters
+const ListChangesetsSchema = z.object({
+  limit: z.number().int().min(1).optional().default(20).describe("Maximum number of changesets to list (newest first)"),
+});
+
+const UndoChangesetSchema = z.object({
+  id: z.string().describe("Changeset id as shown by list_changesets"),
+  force: z.boolean().optional().default(false).describe("Restore files even if they changed after the changeset"),
+});
+
+const PruneBackupsSchema = z.object({
+  olderThanDays: z.number().min(0).optional().default(7).describe("Only prune changesets older than this many days"),
+  keepLatest: z.number().int().min(0).optional().default(10).describe("Always keep this many of the newest changesets"),
+  includeLegacyBackups: z.boolean().optional().default(false).describe("Also delete file.backup-<timestamp> copies left next to source files"),
+  path: z.string().optional().describe("Directory to scan for legacy backup files"),
+  dryRun: z.boolean().optional().default(true).describe("Preview what would be deleted without deleting it"),
+});
+
+export const listChangesetsTool = defineTool({
+  name: "list_changesets",
+  description: "List recorded write operations (changesets) that can be undone",
+  schema: ListChangesetsSchema,
+  handler: async (args) => {
+    try {
+      const changesets = (await listChangesets()).slice(0, args.limit);
+
+      let summary = `🗂️ **Changesets**\n\nJournal: \`${getJournalDir()}\`\n\n`;
+      if (changesets.length === 0) {
+        summary += `No changesets recorded.`;
+      }
+
+      for (const changeset of changesets) {
+        const status = changeset.undoneAt ? `undone ${changeset.undoneAt}` : 'applied';
+        summary += `📦 **${changeset.id}** (${changeset.tool}, ${status})\n`;
+        summary += `   ${changeset.description}\n`;
+        summary += `   ${changeset.files.length} file(s), created ${changeset.createdAt}\n`;
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: summary
+          },
+          {
+            type: "text",
+            text: JSON.stringify(changesets, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error listing changesets: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ],
+        isError: true
+      };
+    }
+  },
+});
+
+export const undoChangesetTool = defineTool({
+  name: "undo_changeset",
+  description: "Restore the files changed by a changeset to their original content",
+  schema: UndoChangesetSchema,
+  writesFiles: true,
+  handler: async (args) => {
+    try {
+      const report = await undoChangeset(args.id, args.force);
+
+      let summary = `↩️ **Undo Changeset**\n\nChangeset: \`${args.id}\`\n\n`;
+
+      if (report.missingBackups.length > 0) {
+        summary += `❌ Cannot undo: no original content was stored for these files (run with \`backup: false\`):\n`;
+        summary += report.missingBackups.map(file => `- ${file}`).join('\n');
+        return { content: [{ type: "text", text: summary }], isError: true };
+      }
+
+      if (report.restored.length === 0 && report.conflicts.length > 0) {
+        summary += `❌ Refusing to undo: these files changed after the changeset:\n`;
+        summary += report.conflicts.map(file => `- ${file}`).join('\n');
+        summary += `\n\n💡 **Tip**: Set \`force: true\` to overwrite them with their original content.`;
+        return { content: [{ type: "text", text: summary }], isError: true };
+      }
+
+      summary += `Restored ${report.restored.length} file(s):\n`;
+      summary += report.restored.map(file => `- ${file}`).join('\n');
+      if (report.conflicts.length > 0) {
+        summary += `\n\n⚠️ Overwrote ${report.conflicts.length} file(s) that changed after the changeset.`;
+      }
+
+      return { content: [{ type: "text", text: summary }] };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error undoing changeset: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ],
+        isError: true
+      };
+    }
+  },
+});
+
+export const pruneBackupsTool = defineTool({
+  name: "prune_backups",
+  description: "Delete old changesets from the journal and, optionally, legacy backup files",
+  schema: PruneBackupsSchema,
+  writesFiles: true,
+  handler: async (args) => {
+    try {
+      const pruned = await pruneChangesets({
+        olderThanDays: args.olderThanDays,
+        keepLatest: args.keepLatest,
+        dryRun: args.dryRun,
+      });
+
+      const legacyBackups = args.includeLegacyBackups ? await findLegacyBackups(args.path) : [];
+      if (!args.dryRun) {
+        for (const file of legacyBackups) {
+          await fs.rm(file, { force: true });
+        }
+        notifyFilesChanged(legacyBackups);
+      }
+
+      const verb = args.dryRun ? 'Would delete' : 'Deleted';
+      let summary = `🧹 **Prune Backups**\n\nMode: ${args.dryRun ? 'DRY RUN (Preview)' : 'LIVE'}\n\n`;
+      summary += `${verb} ${pruned.length} changeset(s)\n`;
+      summary += pruned.map(changeset => `- ${changeset.id} (${changeset.createdAt})`).join('\n');
+
+      if (args.includeLegacyBackups) {
+        summary += `\n${verb} ${legacyBackups.length} legacy backup file(s)\n`;
+        summary += legacyBackups.map(file => `- ${file}`).join('\n');
+      }
+
+      if (args.dryRun) {
+        summary += `\n\n💡 **Tip**: Set \`dryRun: false\` to delete them.`;
+      }
+
+      return { content: [{ type: "text", text: summary }] };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error pruning backups: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ],
+        isError: true
+      };
+    }
+  },
+});
+
+export const journalTools = [
+  listChangesetsTool,
+  undoChangesetTool,
+  pruneBackupsTool,
+];
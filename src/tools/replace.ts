@@ -0,0 +1,788 @@
+import { z } from "zod";
+import { createUnifiedDiff } from "../diff.js";
+import { FileEncoding, UnsupportedFileError, describeEncoding } from "../encoding.js";
+import { Changeset, FileEdit, applyEdits, startChangeset } from "../journal.js";
+import { assertScopeFilters, gitScopeField, resolveScopeFiles } from "../git.js";
+import { createFileFilter, fileFilterFields } from "../ignore.js";
+import { ToolContext, throwIfCancelled } from "../progress.js";
+import { ToolArgs, ToolResult, defineTool } from "../registry.js";
+import { RenameKind, planRename } from "../rename.js";
+import {
+  CandidateFiles,
+  PatternOptions,
+  ReplaceMatch,
+  compileReplacePattern,
+  findFilesForMatchIds,
+  findFilesForReplacement,
+  formatRefusedFiles,
+  formatSkippedFiles,
+  listFilesOfTypes,
+  mergeCandidateFiles,
+  performReplace,
+  readReplaceSource,
+  replaceInText,
+} from "../replace.js";
+import { assertInsideRoots, toRootRelative } from "../sandbox.js";
+
+// Helper function to describe the changeset recorded by a live run
+function formatChangesetSummary(changeset: Changeset): string {
+  if (changeset.files.length === 0) {
+    return '';
+  }
+  const undoable = changeset.files.every(file => file.backup !== null);
+  return `- Changeset: \`${changeset.id}\` (${changeset.files.length} file(s))${undoable ? `, undo with \`undo_changeset\`` : ', not undoable (backup disabled)'}\n`;
+}
+
+// Helper function to stop between files once the request is cancelled, and to report progress.
+// Edits are written in one batch at the end, so nothing has been written at this point.
+function checkpoint(context: ToolContext, done: number, total: number): void {
+  throwIfCancelled(context.signal, `${done} of ${total} file(s) processed; no files were changed`);
+  context.progress?.report(done, total, `Processed ${done} of ${total} file(s)`);
+}
+
+// Helper function to note a file's encoding next to its name when it is not plain UTF-8 with LF
+function formatEncodingNote(encoding: FileEncoding): string {
+  const description = describeEncoding(encoding);
+  return description ? ` (${description})` : '';
+}
+
+// Helper function to render one file's diff as a fenced block
+function formatDiffPreview(patch: string): string {
+  return patch ? `\`\`\`diff\n${patch}\`\`\`\n\n` : '';
+}
+
+// A match shown in a dry run, so it can be picked for a follow-up call
+type MatchPreview = ReplaceMatch & { file: string; selected: boolean };
+
+// Helper function to render text as an indented fenced block that survives backticks in the text
+function formatIndentedBlock(text: string): string {
+  const fence = '`'.repeat(Math.max(3, ...(text.match(/`+/g) ?? []).map(run => run.length + 1)));
+  return [fence, ...text.split('\n'), fence].map(line => `  ${line}`).join('\n');
+}
+
+// Helper function to list the matches of one file with their ids; matches spanning
+// lines are shown as blocks with their line range
+function formatMatchList(matches: MatchPreview[]): string {
+  if (matches.length === 0) {
+    return '';
+  }
+  const rows = matches.map(match => {
+    const note = match.selected ? '' : ' (not selected)';
+    if (!match.match.includes('\n') && !match.replacement.includes('\n')) {
+      return `- \`${match.id}\` ${match.line}:${match.column} \`${match.match}\` → \`${match.replacement}\`${note}`;
+    }
+    return `- \`${match.id}\` ${match.line}:${match.column}-${match.endLine}:${match.endColumn}${note}\n` +
+      `${formatIndentedBlock(match.match)}\n  →\n${formatIndentedBlock(match.replacement)}`;
+  });
+  return `Matches:\n${rows.join('\n')}\n\n`;
+}
+
+// One row of the bulk_replace change matrix; null marks an operation that does not apply to the file
+interface ChangeMatrixRow {
+  file: string;
+  counts: Array<number | null>;
+}
+
+// Helper function to render how many replacements each operation made in each file
+function formatChangeMatrix(rows: ChangeMatrixRow[], operations: number): string {
+  if (rows.length === 0) {
+    return '';
+  }
+  const columns = Array.from({ length: operations }, (_, index) => `#${index + 1}`);
+  let table = `\n**Changes per file:**\n\n| File | ${columns.join(' | ')} | Total |\n|---|${columns.map(() => '---:|').join('')}---:|\n`;
+  for (const row of rows) {
+    const total = row.counts.reduce<number>((sum, count) => sum + (count ?? 0), 0);
+    table += `| ${toRootRelative(row.file)} | ${row.counts.map(count => count === null ? '–' : String(count)).join(' | ')} | ${total} |\n`;
+  }
+  return `${table}\n`;
+}
+
+// Helper function to build the response; dry runs also return the combined patch
+// and the match list (as JSON) on their own
+function buildReplaceResponse(summary: string, patches: string[], matches: MatchPreview[] = []): ToolResult {
+  const combinedPatch = patches.join('');
+  const content: ToolResult["content"] = [{ type: "text", text: summary }];
+  if (combinedPatch) {
+    content.push({ type: "text", text: combinedPatch });
+  }
+  if (matches.length > 0) {
+    const entries = matches.map(({ id, file, line, column, endLine, endColumn, match, replacement, selected }) =>
+      ({ id, file, line, column, endLine, endColumn, match, replacement, selected }));
+    content.push({ type: "text", text: JSON.stringify({ matches: entries }, null, 2) });
+  }
+  return { content };
+}
+
+// Helper function to pick the pattern options shared by the replace tools
+function patternOptionsFrom(args: PatternOptions): PatternOptions {
+  return {
+    caseSensitive: args.caseSensitive,
+    multiline: args.multiline,
+    dotAll: args.dotAll,
+    literal: args.literal,
+    wholeWord: args.wholeWord,
+  };
+}
+
+// Helper function to list the matching modes that are switched on, for result headers
+function describePatternOptions(options: PatternOptions): string {
+  const modes = [
+    options.literal ? 'literal' : '',
+    options.wholeWord ? 'whole word' : '',
+    options.multiline ? 'multiline' : '',
+    options.dotAll ? 'dotAll' : '',
+  ].filter(Boolean);
+  return modes.length > 0 ? ` (${modes.join(', ')})` : '';
+}
+
+// Zod schemas for tool parameters
+const SearchAndReplaceSchema = z.object({
+  pattern: z.string().describe("Search pattern or regular expression"),
+  replacement: z.string().describe("Replacement text (supports capture groups like $1, $2)"),
+  path: z.string().optional().describe("Directory or file path to search and replace (defaults to current directory)"),
+  fileTypes: z.string().optional().describe("Comma-separated list of file types (e.g., 'cpp,js,py')"),
+  caseSensitive: z.boolean().optional().default(false).describe("Perform case-sensitive search"),
+  multiline: z.boolean().optional().default(false).describe("Let ^ and $ match at every line instead of only at the start and end of the file"),
+  dotAll: z.boolean().optional().default(false).describe("Let . match line breaks, so a match can span lines"),
+  literal: z.boolean().optional().default(false).describe("Treat the pattern as plain text and insert the replacement as is (no $1 expansion)"),
+  wholeWord: z.boolean().optional().default(false).describe("Only match where the pattern is not part of a longer word"),
+  dryRun: z.boolean().optional().default(true).describe("Preview changes without applying them"),
+  maxFiles: z.number().int().min(1).optional().default(50).describe("Maximum number of files to process"),
+  diffContext: z.number().int().min(0).optional().default(3).describe("Lines of context around each change in the dry-run diff"),
+  backup: z.boolean().optional().default(true).describe("Store original file contents in the change journal so the run can be undone"),
+  matchIds: z.array(z.string()).min(1).optional().describe("Apply only these match IDs from a previous dry run; fails if the content under any of them has changed"),
+  scope: gitScopeField,
+  ...fileFilterFields,
+  includeBinary: z.boolean().optional().default(false).describe("Also edit binary files (files containing NUL bytes)"),
+});
+
+const BulkReplaceSchema = z.object({
+  replacements: z.array(z.object({
+    pattern: z.string().describe("Search pattern"),
+    replacement: z.string().describe("Replacement text"),
+    description: z.string().optional().describe("Description of this replacement"),
+    caseSensitive: z.boolean().optional().describe("Override caseSensitive for this operation"),
+    literal: z.boolean().optional().describe("Override literal for this operation"),
+    fileTypes: z.string().optional().describe("Only apply this operation to these file types (overrides fileTypes)"),
+  })).describe("Array of search/replace operations, applied in order to each file"),
+  path: z.string().optional().describe("Directory or file path to process"),
+  fileTypes: z.string().optional().describe("Comma-separated list of file types"),
+  maxFiles: z.number().int().min(1).optional().default(100).describe("Maximum number of files to process"),
+  dryRun: z.boolean().optional().default(true).describe("Preview changes without applying them"),
+  caseSensitive: z.boolean().optional().default(false).describe("Perform case-sensitive operations"),
+  multiline: z.boolean().optional().default(false).describe("Let ^ and $ match at every line instead of only at the start and end of the file"),
+  dotAll: z.boolean().optional().default(false).describe("Let . match line breaks, so a match can span lines"),
+  literal: z.boolean().optional().default(false).describe("Treat the pattern as plain text and insert the replacement as is (no $1 expansion)"),
+  wholeWord: z.boolean().optional().default(false).describe("Only match where the pattern is not part of a longer word"),
+  diffContext: z.number().int().min(0).optional().default(3).describe("Lines of context around each change in the dry-run diff"),
+  backup: z.boolean().optional().default(true).describe("Store original file contents in the change journal so the run can be undone"),
+  ...fileFilterFields,
+  includeBinary: z.boolean().optional().default(false).describe("Also edit binary files (files containing NUL bytes)"),
+});
+
+const CodeRefactorSchema = z.object({
+  structureType: z.enum(['function', 'class', 'method', 'import', 'variable']).describe("Type of code structure to refactor"),
+  oldPattern: z.string().describe("Pattern to find (e.g., old function name)"),
+  newPattern: z.string().describe("Replacement pattern (e.g., new function name)"),
+  language: z.enum(['js', 'ts', 'py', 'java', 'cpp']).describe("Programming language"),
+  path: z.string().optional().describe("Directory or file path to refactor (for js/ts renames, the project root so every reference is found)"),
+  className: z.string().optional().describe("Only rename members of this class or interface (js/ts method and variable renames)"),
+  maxFiles: z.number().int().min(1).optional().default(100).describe("Maximum number of files to process"),
+  dryRun: z.boolean().optional().default(true).describe("Preview changes without applying them"),
+  diffContext: z.number().int().min(0).optional().default(3).describe("Lines of context around each change in the dry-run diff"),
+  backup: z.boolean().optional().default(true).describe("Store original file contents in the change journal so the run can be undone"),
+  ...fileFilterFields,
+  includeBinary: z.boolean().optional().default(false).describe("Also edit binary files (files containing NUL bytes)"),
+});
+
+// Helper function to rename a js/ts symbol and all of its references with the TypeScript language service
+async function renameSymbol(args: ToolArgs<typeof CodeRefactorSchema>, kind: RenameKind, context: ToolContext): Promise<ToolResult> {
+  const plan = await planRename(args.path, {
+    oldName: args.oldPattern,
+    newName: args.newPattern,
+    kind,
+    className: args.className,
+    fileFilter: createFileFilter(args),
+  });
+
+  let summary = `🔧 **Code Refactor Results**\n\nStructure: ${args.structureType}\nOld: \`${args.oldPattern}\`\nNew: \`${args.newPattern}\`\nLanguage: ${args.language}\nMode: ${args.dryRun ? 'DRY RUN (Preview)' : 'LIVE REFACTORING'} (scope-aware rename)\n\n`;
+
+  if (plan.targets.length === 0 && plan.conflicts.length === 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${summary}No ${args.structureType} declaration named \`${args.oldPattern}\`${args.className ? ` in \`${args.className}\`` : ''} was found.`
+        }
+      ]
+    };
+  }
+
+  if (plan.targets.length > 0) {
+    summary += `**Declarations:**\n`;
+    for (const target of plan.targets) {
+      summary += `- ${toRootRelative(target.file)}:${target.line}${target.enclosingClass ? ` (in \`${target.enclosingClass}\`)` : ''}\n`;
+    }
+    summary += '\n';
+  }
+
+  if (plan.conflicts.length > 0) {
+    summary += `⚠️ **Conflicts** (the rename will not be applied):\n`;
+    for (const conflict of plan.conflicts) {
+      summary += `- ${toRootRelative(conflict.file)}${conflict.line > 0 ? `:${conflict.line}` : ''}: ${conflict.message}\n`;
+    }
+    summary += '\n';
+  }
+
+  const tooManyFiles = plan.edits.length > args.maxFiles;
+  const refused = plan.conflicts.length > 0 || tooManyFiles;
+  if (!args.dryRun && refused) {
+    const reason = tooManyFiles
+      ? `the rename touches ${plan.edits.length} files, more than maxFiles (${args.maxFiles})`
+      : `${plan.conflicts.length} conflict(s) were found`;
+    return {
+      content: [{ type: "text", text: `${summary}❌ No files were changed: ${reason}.` }],
+      isError: true
+    };
+  }
+
+  let totalChanges = 0;
+  const patches: string[] = [];
+  const changeset = startChangeset("code_refactor", `Rename ${args.structureType} \`${args.oldPattern}\` to \`${args.newPattern}\` (${args.language})`);
+
+  for (const edit of plan.edits) {
+    await assertInsideRoots(edit.file);
+  }
+  if (!args.dryRun) {
+    // Write every file or none of them, and record the run in the change journal
+    await applyEdits(changeset, plan.edits, { backup: args.backup, signal: context.signal });
+  }
+
+  for (const edit of plan.edits) {
+    totalChanges += edit.changes;
+    summary += `📄 **${edit.file}**: ${edit.changes} reference(s)${formatEncodingNote(edit.encoding)}\n`;
+
+    if (args.dryRun) {
+      const diff = createUnifiedDiff(toRootRelative(edit.file), edit.original, edit.modified, args.diffContext);
+      summary += formatDiffPreview(diff.patch);
+      patches.push(diff.patch);
+    }
+  }
+
+  summary += `\n📊 **Summary**:\n`;
+  summary += `- Files processed: ${plan.edits.length}\n`;
+  summary += `- Total references renamed: ${totalChanges}\n`;
+  if (tooManyFiles) {
+    summary += `- ⚠️ The rename touches more files than maxFiles (${args.maxFiles}); raise it to apply\n`;
+  }
+  summary += formatChangesetSummary(changeset);
+
+  if (args.dryRun) {
+    summary += refused
+      ? `\n💡 **Tip**: Resolve the conflicts above (or pick another name) before applying.`
+      : `\n💡 **Tip**: The combined patch is returned as a separate content item (check it with \`git apply --check\`). Set \`dryRun: false\` to apply these changes.`;
+  }
+
+  return buildReplaceResponse(summary, patches);
+}
+
+export const searchAndReplaceTool = defineTool({
+  name: "search_and_replace",
+  description: "Search for patterns and replace them with new text (supports dry-run mode and applying only selected matches)",
+  schema: SearchAndReplaceSchema,
+  writesFiles: true,
+  handler: async (args, context) => {
+    try {
+      // Reject an invalid pattern before touching any file
+      const patternOptions = patternOptionsFrom(args);
+      compileReplacePattern(args.pattern, patternOptions);
+
+      // Find the files that actually contain the pattern, or the files named by the chosen matches
+      const selectedIds = args.matchIds ? new Set(args.matchIds) : undefined;
+      // Chosen matches already name their files, so the scope only applies to a search
+      assertScopeFilters(args.matchIds ? 'all' : args.scope, args);
+      const candidates = args.matchIds
+        ? await findFilesForMatchIds(args.matchIds, createFileFilter(args))
+        : await findFilesForReplacement(args.path, {
+          ...patternOptions,
+          patterns: [args.pattern],
+          fileTypes: args.fileTypes,
+          maxFiles: args.maxFiles,
+          filter: args,
+          includeBinary: args.includeBinary,
+          files: await resolveScopeFiles(args.path, args.scope),
+          context,
+        });
+      const files = candidates.files;
+      
+      if (files.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `🔍 **Search and Replace Results**\n\nPattern: \`${args.pattern}\`${describePatternOptions(patternOptions)}\nReplacement: \`${args.replacement}\`\nPath: \`${args.path || '.'}\`\n\nNo matches found.`
+            }
+          ]
+        };
+      }
+
+      let summary = `🔍 **Search and Replace Results**\n\nPattern: \`${args.pattern}\`${describePatternOptions(patternOptions)}\nReplacement: \`${args.replacement}\`\nPath: \`${args.path || '.'}\`${args.scope !== 'all' && !selectedIds ? `\nScope: \`${args.scope}\`` : ''}\nMode: ${args.dryRun ? 'DRY RUN (Preview)' : 'LIVE REPLACEMENT'}${selectedIds ? ` (${selectedIds.size} selected match(es))` : ''}\n\n`;
+      
+      // Compute every file's replacement before writing anything
+      const results: Array<{ file: string; result: Awaited<ReturnType<typeof performReplace>> }> = [];
+      const fileErrors: string[] = [];
+      const refused = [...candidates.refused];
+      context.progress?.startPhase();
+      for (const [index, file] of files.entries()) {
+        checkpoint(context, index, files.length);
+        try {
+          await assertInsideRoots(file);
+          results.push({ file, result: await performReplace(file, args.pattern, args.replacement, {
+            ...patternOptions,
+            selectedIds,
+            includeBinary: args.includeBinary,
+          }) });
+        } catch (fileError) {
+          if (fileError instanceof UnsupportedFileError) {
+            refused.push({ file, reason: fileError.reason });
+            continue;
+          }
+          fileErrors.push(`❌ **${file}**: Error - ${fileError instanceof Error ? fileError.message : String(fileError)}\n`);
+        }
+      }
+
+      // A chosen match that no longer exists means the file changed under it since the preview
+      if (selectedIds) {
+        const currentIds = new Set(results.flatMap(({ result }) => result.matches.map(match => match.id)));
+        const stale = [...selectedIds].filter(id => !currentIds.has(id));
+        if (stale.length > 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `${summary}${fileErrors.join('')}❌ No changes were made: the content under ${stale.length} selected match(es) changed since the preview. Run a new dry run to get fresh match IDs.\n\n${stale.map(id => `- \`${id}\``).join('\n')}`
+              }
+            ],
+            isError: true
+          };
+        }
+      }
+
+      let totalChanges = 0;
+      let processedFiles = 0;
+      const patches: string[] = [];
+      const matchList: MatchPreview[] = [];
+      const changeset = startChangeset("search_and_replace", `Replace \`${args.pattern}\` with \`${args.replacement}\` in ${args.path}`);
+
+      // A live run writes every file or none of them
+      if (!args.dryRun && fileErrors.length > 0) {
+        return {
+          content: [{ type: "text", text: `${summary}${fileErrors.join('')}\n❌ No files were changed: ${fileErrors.length} file(s) failed.` }],
+          isError: true
+        };
+      }
+
+      const changed = results.filter(({ result }) => result.changes > 0);
+      if (!args.dryRun) {
+        // Write every file or none of them, and record the run in the change journal
+        await applyEdits(changeset, changed.map(({ file, result }) => ({ file, ...result })), { backup: args.backup, signal: context.signal });
+      }
+
+      // Process each file
+      for (const { file, result } of changed) {
+        processedFiles++;
+        totalChanges += result.changes;
+        summary += `📄 **${file}**: ${result.changes} replacement(s)${formatEncodingNote(result.encoding)}\n`;
+        
+        // Show a unified diff and the id of every match in dry run mode
+        if (args.dryRun) {
+          const diff = createUnifiedDiff(toRootRelative(file), result.original, result.modified, args.diffContext);
+          summary += formatDiffPreview(diff.patch);
+          patches.push(diff.patch);
+
+          const previews = result.matches.map(match => ({
+            ...match,
+            file: toRootRelative(file),
+            selected: !selectedIds || selectedIds.has(match.id),
+          }));
+          summary += formatMatchList(previews);
+          matchList.push(...previews);
+        }
+      }
+      summary += fileErrors.join('');
+
+      summary += `\n📊 **Summary**:\n`;
+      summary += `- Files processed: ${processedFiles}\n`;
+      summary += `- Total replacements: ${totalChanges}\n`;
+      summary += formatSkippedFiles(candidates, args.maxFiles);
+      summary += formatRefusedFiles(refused);
+      
+      summary += formatChangesetSummary(changeset);
+      
+      if (args.dryRun) {
+        summary += `\n💡 **Tip**: The combined patch is returned as a separate content item (check it with \`git apply --check\`). Set \`dryRun: false\` to apply these changes, and pass \`matchIds\` to apply only some of the matches.`;
+      }
+
+      return buildReplaceResponse(summary, patches, matchList);
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error performing search and replace: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ],
+        isError: true
+      };
+    }
+  },
+});
+
+export const bulkReplaceTool = defineTool({
+  name: "bulk_replace",
+  description: "Perform multiple search and replace operations in a single command",
+  schema: BulkReplaceSchema,
+  writesFiles: true,
+  handler: async (args, context) => {
+    try {
+      // Each operation's own options win over the shared ones
+      const operations = args.replacements.map(replacement => ({
+        ...replacement,
+        options: {
+          ...patternOptionsFrom(args),
+          caseSensitive: replacement.caseSensitive ?? args.caseSensitive,
+          literal: replacement.literal ?? args.literal,
+        },
+        fileTypes: replacement.fileTypes ?? args.fileTypes,
+      }));
+
+      // Reject an invalid pattern before touching any file
+      for (const operation of operations) {
+        compileReplacePattern(operation.pattern, operation.options);
+      }
+
+      let summary = `🔄 **Bulk Replace Results**\n\nPath: \`${args.path || '.'}\`\nMode: ${args.dryRun ? 'DRY RUN (Preview)' : 'LIVE REPLACEMENT'}\n\n`;
+      
+      let totalChanges = 0;
+      const changeset = startChangeset("bulk_replace", `${args.replacements.length} replacement operation(s) in ${args.path}`);
+      const found: CandidateFiles[] = [];
+      for (const operation of operations) {
+        found.push(await findFilesForReplacement(args.path, {
+          ...operation.options,
+          patterns: [operation.pattern],
+          fileTypes: operation.fileTypes,
+          maxFiles: Number.MAX_SAFE_INTEGER,
+          filter: args,
+          includeBinary: args.includeBinary,
+          context,
+        }));
+        context.progress?.startPhase();
+      }
+      const candidates = mergeCandidateFiles(found, args.maxFiles);
+      const allFiles = candidates.files;
+
+      if (allFiles.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `🔄 **Bulk Replace Results**\n\nNo files match any of the patterns.`
+            }
+          ]
+        };
+      }
+
+      // With per-operation file types, an operation only runs on the files of its own types
+      const filesOfTypes = new Map<string, Set<string>>();
+      if (operations.some(operation => operation.fileTypes !== args.fileTypes)) {
+        for (const fileTypes of new Set(operations.map(operation => operation.fileTypes))) {
+          if (fileTypes) filesOfTypes.set(fileTypes, await listFilesOfTypes(args.path, fileTypes, args, context.signal));
+        }
+      }
+      const appliesTo = (operation: typeof operations[number], file: string) =>
+        !operation.fileTypes || !filesOfTypes.has(operation.fileTypes) || filesOfTypes.get(operation.fileTypes)!.has(file);
+
+      const refused = [...candidates.refused];
+      const operationChanges = operations.map(() => 0);
+      const operationErrors: string[][] = operations.map(() => []);
+      const matrix: ChangeMatrixRow[] = [];
+      const edits: FileEdit[] = [];
+
+      // Run every operation over each file in memory, each one on the previous one's output,
+      // so a dry run previews exactly what a live run writes
+      for (const [position, file] of allFiles.entries()) {
+        checkpoint(context, position, allFiles.length);
+        let index = 0;
+        try {
+          await assertInsideRoots(file);
+          const source = await readReplaceSource(file, { includeBinary: args.includeBinary });
+          const counts: Array<number | null> = [];
+          let text = source.original;
+          for (; index < operations.length; index++) {
+            const operation = operations[index];
+            if (!appliesTo(operation, file)) {
+              counts.push(null);
+              continue;
+            }
+            const outcome = await replaceInText(text, operation.pattern, operation.replacement, {
+              ...operation.options,
+              displayPath: toRootRelative(file),
+              lineEnding: source.encoding.lineEnding,
+            });
+            counts.push(outcome.changes);
+            operationChanges[index] += outcome.changes;
+            text = outcome.modified;
+          }
+          if (counts.some(count => count)) {
+            matrix.push({ file, counts });
+          }
+          if (text !== source.original) {
+            edits.push({ file, ...source, modified: text });
+          }
+        } catch (fileError) {
+          if (fileError instanceof UnsupportedFileError) {
+            refused.push({ file, reason: fileError.reason });
+            continue;
+          }
+          operationErrors[index].push(`   ❌ Error in ${file}: ${fileError instanceof Error ? fileError.message : String(fileError)}\n`);
+        }
+      }
+
+      for (let i = 0; i < operations.length; i++) {
+        const operation = operations[i];
+        const overrides = [
+          operation.caseSensitive !== undefined ? `caseSensitive: ${operation.caseSensitive}` : '',
+          operation.literal !== undefined ? `literal: ${operation.literal}` : '',
+          operation.fileTypes !== args.fileTypes ? `fileTypes: ${operation.fileTypes}` : '',
+        ].filter(Boolean);
+        summary += `\n🔍 **Operation ${i + 1}**: ${operation.description || `Pattern: ${operation.pattern}`}${overrides.length > 0 ? ` (${overrides.join(', ')})` : ''}\n`;
+        summary += operationErrors[i].join('');
+        summary += `   📊 Changes made: ${operationChanges[i]}\n`;
+        totalChanges += operationChanges[i];
+      }
+
+      // A live run writes every file or none of them
+      const failures = operationErrors.flat().length;
+      if (!args.dryRun && failures > 0) {
+        return {
+          content: [{ type: "text", text: `${summary}\n❌ No files were changed: ${failures} file(s) failed.` }],
+          isError: true
+        };
+      }
+      if (!args.dryRun) {
+        await applyEdits(changeset, edits, { backup: args.backup, signal: context.signal });
+      }
+
+      summary += formatChangeMatrix(matrix, operations.length);
+
+      // Show the combined effect of all operations on each file in dry run mode
+      const patches: string[] = [];
+      if (args.dryRun) {
+        for (const edit of edits) {
+          const diff = createUnifiedDiff(toRootRelative(edit.file), edit.original, edit.modified, args.diffContext);
+          summary += `📄 **${edit.file}**${formatEncodingNote(edit.encoding!)}\n${formatDiffPreview(diff.patch)}`;
+          patches.push(diff.patch);
+        }
+      }
+
+      summary += `\n📊 **Overall Summary**:\n`;
+      summary += `- Operations performed: ${args.replacements.length}\n`;
+      summary += `- Total replacements: ${totalChanges}\n`;
+      summary += `- Files available: ${allFiles.length}\n`;
+      summary += `- Files changed: ${edits.length}\n`;
+      summary += formatSkippedFiles(candidates, args.maxFiles);
+      summary += formatRefusedFiles(refused);
+      
+      summary += formatChangesetSummary(changeset);
+      
+      if (args.dryRun) {
+        summary += `\n💡 **Tip**: The combined patch of all operations is returned as a separate content item (check it with \`git apply --check\`). Set \`dryRun: false\` to apply these changes.`;
+      }
+
+      return buildReplaceResponse(summary, patches);
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error performing bulk replace: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ],
+        isError: true
+      };
+    }
+  },
+});
+
+export const codeRefactorTool = defineTool({
+  name: "code_refactor",
+  description: "Refactor code structures like function names, class names, etc. (js/ts renames update every reference)",
+  schema: CodeRefactorSchema,
+  writesFiles: true,
+  handler: async (args, context) => {
+    try {
+      // js/ts declarations are renamed together with every reference
+      if ((args.language === 'js' || args.language === 'ts') && args.structureType !== 'import') {
+        return await renameSymbol(args, args.structureType, context);
+      }
+
+      // Build language-specific patterns for refactoring
+      let searchPattern = '';
+      let replacePattern = '';
+      
+      switch (args.structureType) {
+        case 'function':
+          if (args.language === 'py') {
+            searchPattern = `def ${args.oldPattern}`;
+            replacePattern = `def ${args.newPattern}`;
+          } else if (args.language === 'js' || args.language === 'ts') {
+            searchPattern = `function ${args.oldPattern}`;
+            replacePattern = `function ${args.newPattern}`;
+          } else {
+            searchPattern = args.oldPattern;
+            replacePattern = args.newPattern;
+          }
+          break;
+          
+        case 'class':
+          searchPattern = `class ${args.oldPattern}`;
+          replacePattern = `class ${args.newPattern}`;
+          break;
+          
+        case 'variable':
+          if (args.language === 'js' || args.language === 'ts') {
+            // Handle const, let, var declarations
+            searchPattern = `(const|let|var) ${args.oldPattern}`;
+            replacePattern = `$1 ${args.newPattern}`;
+          } else {
+            searchPattern = args.oldPattern;
+            replacePattern = args.newPattern;
+          }
+          break;
+          
+        case 'import':
+          if (args.language === 'py') {
+            searchPattern = `import ${args.oldPattern}`;
+            replacePattern = `import ${args.newPattern}`;
+          } else if (args.language === 'js' || args.language === 'ts') {
+            searchPattern = `from ['"]${args.oldPattern}['"]`;
+            replacePattern = `from "${args.newPattern}"`;
+          }
+          break;
+          
+        default:
+          searchPattern = args.oldPattern;
+          replacePattern = args.newPattern;
+      }
+
+      // Get files to process
+      const candidates = await findFilesForReplacement(args.path, {
+        patterns: [searchPattern],
+        caseSensitive: true,
+        fileTypes: args.language,
+        maxFiles: args.maxFiles,
+        filter: args,
+        includeBinary: args.includeBinary,
+        context,
+      });
+      const files = candidates.files;
+      
+      if (files.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `🔧 **Code Refactor Results**\n\nStructure: ${args.structureType}\nOld: \`${args.oldPattern}\`\nNew: \`${args.newPattern}\`\nLanguage: ${args.language}\n\nNo ${args.language} files contain \`${searchPattern}\`.`
+            }
+          ]
+        };
+      }
+
+      let summary = `🔧 **Code Refactor Results**\n\nStructure: ${args.structureType}\nOld: \`${args.oldPattern}\`\nNew: \`${args.newPattern}\`\nLanguage: ${args.language}\nMode: ${args.dryRun ? 'DRY RUN (Preview)' : 'LIVE REFACTORING'}\n\n`;
+      
+      let totalChanges = 0;
+      let processedFiles = 0;
+      const patches: string[] = [];
+      const changeset = startChangeset("code_refactor", `Rename ${args.structureType} \`${args.oldPattern}\` to \`${args.newPattern}\` (${args.language})`);
+      const refused = [...candidates.refused];
+      const edits: FileEdit[] = [];
+      let failures = 0;
+
+      // Process each file
+      context.progress?.startPhase();
+      for (const [index, file] of files.entries()) {
+        checkpoint(context, index, files.length);
+        try {
+          await assertInsideRoots(file);
+          const result = await performReplace(file, searchPattern, replacePattern, {
+            caseSensitive: true,
+            includeBinary: args.includeBinary,
+          });
+          
+          if (result.changes > 0) {
+            processedFiles++;
+            totalChanges += result.changes;
+            
+            edits.push({ file, ...result });
+            summary += `📄 **${file}**: ${result.changes} refactoring(s)${formatEncodingNote(result.encoding)}\n`;
+            
+            // Show a unified diff of the changes in dry run mode
+            if (args.dryRun) {
+              const diff = createUnifiedDiff(toRootRelative(file), result.original, result.modified, args.diffContext);
+              summary += formatDiffPreview(diff.patch);
+              patches.push(diff.patch);
+            }
+          }
+        } catch (fileError) {
+          if (fileError instanceof UnsupportedFileError) {
+            refused.push({ file, reason: fileError.reason });
+            continue;
+          }
+          failures++;
+          summary += `❌ **${file}**: Error - ${fileError instanceof Error ? fileError.message : String(fileError)}\n`;
+        }
+      }
+
+      // A live run writes every file or none of them
+      if (!args.dryRun && failures > 0) {
+        return {
+          content: [{ type: "text", text: `${summary}\n❌ No files were changed: ${failures} file(s) failed.` }],
+          isError: true
+        };
+      }
+      if (!args.dryRun) {
+        await applyEdits(changeset, edits, { backup: args.backup, signal: context.signal });
+      }
+
+      summary += `\n📊 **Summary**:\n`;
+      summary += `- Files processed: ${processedFiles}\n`;
+      summary += `- Total refactorings: ${totalChanges}\n`;
+      summary += formatSkippedFiles(candidates, args.maxFiles);
+      summary += formatRefusedFiles(refused);
+      
+      summary += formatChangesetSummary(changeset);
+      
+      if (args.dryRun) {
+        summary += `\n💡 **Tip**: The combined patch is returned as a separate content item (check it with \`git apply --check\`). Set \`dryRun: false\` to apply these changes.`;
+      }
+
+      return buildReplaceResponse(summary, patches);
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error performing code refactor: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ],
+        isError: true
+      };
+    }
+  },
+});
+
+export const replaceTools = [
+  searchAndReplaceTool,
+  bulkReplaceTool,
+  codeRefactorTool,
+];
@@ -0,0 +1,721 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+  GitScope,
+  HistoryCommit,
+  HistorySearchResult,
+  assertScopeFilters,
+  gitScopeField,
+  resolveScopeFiles,
+  searchHistory,
+} from "../git.js";
+import { FileFilter, FileFilterOptions, buildIgnoreArgs, createFileFilter, fileFilterFields } from "../ignore.js";
+import { ToolContext } from "../progress.js";
+import { defineTool } from "../registry.js";
+import {
+  SearchResult,
+  attachContext,
+  buildSearchResponse,
+  groupMatches,
+  parseUgrepOutput,
+} from "../results.js";
+import {
+  DEFAULT_PAGE_SIZE,
+  cacheSearchResult,
+  getChangeGeneration,
+  getResultPage,
+  hasCachedResult,
+  resolveCursor,
+  searchCacheKey,
+} from "../pagination.js";
+import { StructureIndex, findDeclarations } from "../structure/index.js";
+import { TrigramQuery, booleanTrigramQuery, findIndexedCandidates, regexTrigramQuery } from "../trigram/index.js";
+import {
+  DEFAULT_UGREP_MAX_BYTES,
+  buildUgrepArgs,
+  checkUgrepAvailability,
+  quoteShellArg,
+  runUgrep,
+} from "../ugrep.js";
+import { isWatched, settleWatchEvents } from "../watcher.js";
+
+// Zod schemas for tool parameters
+const EmptySchema = z.object({});
+
+const BasicSearchSchema = z.object({
+  pattern: z.string().describe("Search pattern or regular expression"),
+  path: z.string().optional().describe("Directory or file path to search (defaults to current directory)"),
+  caseSensitive: z.boolean().optional().default(false).describe("Perform case-sensitive search"),
+  recursiveDepth: z.number().int().min(1).optional().describe("Maximum recursion depth for directory search"),
+  fileTypes: z.string().optional().describe("Comma-separated list of file types (e.g., 'cpp,js,py')"),
+  excludeTypes: z.string().optional().describe("Comma-separated list of file types to exclude"),
+  contextLines: z.number().int().min(0).optional().describe("Number of context lines to show around matches"),
+  maxResults: z.number().int().min(1).optional().default(100).describe("Maximum number of matches per file (ugrep --max-count)"),
+  pageSize: z.number().int().min(1).max(1000).optional().default(DEFAULT_PAGE_SIZE).describe("Maximum number of matches returned in one page"),
+  cursor: z.string().optional().describe("nextCursor from a previous page of the same search"),
+  scope: gitScopeField,
+  ...fileFilterFields,
+});
+
+// basic_search without context lines and paging, which a statistics report has no use for
+const SearchStatsSchema = z.object({
+  pattern: z.string().describe("Search pattern or regular expression"),
+  path: z.string().optional().describe("Directory or file path to search (defaults to current directory)"),
+  caseSensitive: z.boolean().optional().default(false).describe("Perform case-sensitive search"),
+  recursiveDepth: z.number().int().min(1).optional().describe("Maximum recursion depth for directory search"),
+  fileTypes: z.string().optional().describe("Comma-separated list of file types (e.g., 'cpp,js,py')"),
+  excludeTypes: z.string().optional().describe("Comma-separated list of file types to exclude"),
+  maxResults: z.number().int().min(1).optional().default(100).describe("Maximum number of matches per file (ugrep --max-count)"),
+  scope: gitScopeField,
+  ...fileFilterFields,
+});
+
+const BooleanSearchSchema = z.object({
+  query: z.string().describe("Boolean search query (supports AND, OR, NOT operators)"),
+  path: z.string().optional().describe("Directory or file path to search"),
+  fileTypes: z.string().optional().describe("Comma-separated list of file types"),
+  maxResults: z.number().int().min(1).optional().default(100).describe("Maximum number of matches per file (ugrep --max-count)"),
+  pageSize: z.number().int().min(1).max(1000).optional().default(DEFAULT_PAGE_SIZE).describe("Maximum number of matches returned in one page"),
+  cursor: z.string().optional().describe("nextCursor from a previous page of the same search"),
+  ...fileFilterFields,
+});
+
+const FuzzySearchSchema = z.object({
+  pattern: z.string().describe("Pattern to search for with fuzzy matching"),
+  maxErrors: z.number().int().min(1).max(9).optional().default(2).describe("Maximum character errors allowed (1-9)"),
+  path: z.string().optional().describe("Directory or file path to search"),
+  fileTypes: z.string().optional().describe("Comma-separated list of file types"),
+  maxResults: z.number().int().min(1).optional().default(100).describe("Maximum number of matches per file (ugrep --max-count)"),
+  pageSize: z.number().int().min(1).max(1000).optional().default(DEFAULT_PAGE_SIZE).describe("Maximum number of matches returned in one page"),
+  cursor: z.string().optional().describe("nextCursor from a previous page of the same search"),
+  ...fileFilterFields,
+});
+
+const ArchiveSearchSchema = z.object({
+  pattern: z.string().describe("Search pattern"),
+  path: z.string().optional().describe("Directory path containing archives"),
+  archiveTypes: z.string().optional().describe("Archive types to search (zip,tar,gz,7z,etc)"),
+  maxResults: z.number().int().min(1).optional().default(100).describe("Maximum number of matches per file (ugrep --max-count)"),
+  pageSize: z.number().int().min(1).max(1000).optional().default(DEFAULT_PAGE_SIZE).describe("Maximum number of matches returned in one page"),
+  cursor: z.string().optional().describe("nextCursor from a previous page of the same search"),
+  ...fileFilterFields,
+});
+
+const InteractiveSearchSchema = z.object({
+  initialPattern: z.string().optional().describe("Initial search pattern for TUI mode"),
+  path: z.string().optional().describe("Directory to start interactive search in"),
+  ...fileFilterFields,
+});
+
+// Schema for code structure search (functions, classes, methods)
+const CodeStructureSearchSchema = z.object({
+  structureType: z.enum(['function', 'class', 'method', 'import', 'variable']).describe("Type of declaration to search for ('method' covers class members; 'class' includes interfaces and structs)"),
+  name: z.string().optional().describe("Regular expression matched against declaration names (optional)"),
+  language: z.enum(['js', 'ts', 'py', 'java', 'cpp']).describe("Programming language to search in (e.g., 'js', 'py', 'ts', 'java')"),
+  path: z.string().optional().describe("Directory or file path to search"),
+  exported: z.boolean().optional().describe("Only declarations that are (true) or are not (false) visible outside their module"),
+  async: z.boolean().optional().describe("Only async (true) or non-async (false) functions and methods"),
+  ...fileFilterFields,
+  maxResults: z.number().int().min(1).optional().default(100).describe("Maximum number of results to return"),
+});
+
+const SearchHistorySchema = z.object({
+  pattern: z.string().describe("POSIX extended regular expression (git grep -E)"),
+  path: z.string().optional().describe("File or directory inside a git repository to limit the search to"),
+  range: z.string().optional().default("HEAD").describe("Commits to search: a revision and its history (e.g. 'HEAD') or a range (e.g. 'v1.0..HEAD', 'main..feature')"),
+  caseSensitive: z.boolean().optional().default(false).describe("Perform case-sensitive search"),
+  maxCommits: z.number().int().min(1).max(1000).optional().default(50).describe("Maximum number of commits to search, newest first"),
+  maxResults: z.number().int().min(1).optional().default(20).describe("Maximum number of matches listed per commit"),
+});
+
+// Helper function to render the declarations found by code_structure_search
+function formatDeclarations(index: StructureIndex): string {
+  if (index.totalDeclarations === 0) {
+    return `No declarations found (${index.filesScanned} file(s) scanned).`;
+  }
+
+  let text = `Found ${index.totalDeclarations} declaration(s) in ${index.files.length} file(s) (${index.filesScanned} file(s) scanned)\n\n`;
+  for (const { file, declarations } of index.files) {
+    text += `📄 **${file}**\n`;
+    for (const declaration of declarations) {
+      const lines = declaration.startLine === declaration.endLine
+        ? `line ${declaration.startLine}`
+        : `lines ${declaration.startLine}-${declaration.endLine}`;
+      const owner = declaration.enclosingClass ? ` in \`${declaration.enclosingClass}\`` : '';
+      const flags = [declaration.exported ? 'exported' : '', declaration.async ? 'async' : ''].filter(Boolean);
+      text += `- \`${declaration.signature}\` (${lines}${owner})${flags.length > 0 ? ` [${flags.join(', ')}]` : ''}\n`;
+    }
+    text += '\n';
+  }
+  if (index.truncated) {
+    text += `⚠️ Results truncated at maxResults; more declarations may match.\n`;
+  }
+  return text;
+}
+
+// Helper function to render a history search: where the pattern was last seen and the per-commit timeline
+function formatHistory(history: HistorySearchResult): string {
+  const { commits } = history;
+  if (commits.length === 0) {
+    return 'No commits in the range touch the path.';
+  }
+
+  const describe = (commit: HistoryCommit) => `\`${commit.shortCommit}\` ${commit.date} ${commit.subject} (${commit.author})`;
+  const withMatches = commits.filter(commit => commit.matchCount > 0);
+  let text = `Searched ${commits.length} commit(s)${history.moreCommits ? ' (more exist, raise maxCommits to go further back)' : ''}; matches in ${withMatches.length}\n\n`;
+
+  if (withMatches.length === 0) {
+    return `${text}No matches in any searched commit.`;
+  }
+
+  // Commits are newest first, so the first commit with matches is where the pattern was last seen
+  const lastSeen = commits.findIndex(commit => commit.matchCount > 0);
+  text += `📍 Last seen: ${describe(commits[lastSeen])}\n`;
+  if (lastSeen > 0) {
+    text += `🚫 Gone since: ${describe(commits[lastSeen - 1])}\n`;
+  }
+  const firstSeen = commits.length - 1 - [...commits].reverse().findIndex(commit => commit.matchCount > 0);
+  if (firstSeen < commits.length - 1) {
+    text += `✨ First seen: ${describe(commits[firstSeen])}\n`;
+  }
+
+  // Matches are listed where the count changed compared with the previous (older) commit
+  text += `\n**Timeline** (newest first):\n`;
+  commits.forEach((commit, index) => {
+    const older = commits[index + 1];
+    text += `- ${describe(commit)}: ${commit.matchCount} match(es)${commit.fileCount > 0 ? ` in ${commit.fileCount} file(s)` : ''}\n`;
+    if (commit.matchCount > 0 && (!older || older.matchCount !== commit.matchCount)) {
+      for (const match of commit.matches) {
+        text += `  - ${match.file}:${match.line}:${match.column} \`${match.text.trim()}\`\n`;
+      }
+      if (commit.matches.length < commit.matchCount) {
+        text += `  - … ${commit.matchCount - commit.matches.length} more\n`;
+      }
+    }
+  });
+
+  if (history.truncated) {
+    text += `\n⚠️ git output hit the size limit; counts of older commits are incomplete.\n`;
+  }
+  return text;
+}
+
+// Files passed to one ugrep invocation when searching index candidates
+const CANDIDATE_BATCH_SIZE = 500;
+
+// Helper function to return one page of a search, running ugrep only for the first page
+async function runPagedSearch(
+  tool: string,
+  argv: string[],
+  options: {
+    contextLines?: number;
+    archives?: boolean;
+    pageSize: number;
+    cursor?: string;
+    indexQuery?: TrigramQuery;
+    filter: FileFilterOptions;
+    // Only search the files git reports for this scope
+    scope?: GitScope;
+    // Serve a repeated query from the cache while the watcher vouches that nothing changed
+    reuseCached?: boolean;
+    context?: ToolContext;
+  }
+): Promise<SearchResult> {
+  // Path globs are applied after ugrep runs, so they are not part of argv
+  const key = searchCacheKey(tool, argv, {
+    archives: !!options.archives,
+    include: options.filter.include ?? [],
+    exclude: options.filter.exclude ?? [],
+    scope: options.scope ?? 'all',
+  });
+  // The search path is always the last argument, see buildUgrepArgs
+  const searchPath = argv[argv.length - 1];
+  let offset = 0;
+  let index;
+  let cached = false;
+
+  if (options.cursor) {
+    offset = resolveCursor(key, options.cursor).offset;
+  } else {
+    if (options.reuseCached) {
+      await settleWatchEvents();
+      cached = isWatched(searchPath) && hasCachedResult(key);
+    }
+    if (!cached) {
+      const generation = getChangeGeneration();
+      const watched = isWatched(searchPath);
+      const filter = createFileFilter(options.filter);
+      const lookup = options.indexQuery ? await findIndexedCandidates(searchPath, options.indexQuery) : {};
+      const scopeFiles = options.scope ? await resolveScopeFiles(searchPath, options.scope) : undefined;
+      let files = lookup.candidates;
+      if (scopeFiles) {
+        const indexed = files && new Set(files);
+        files = indexed ? scopeFiles.filter(file => indexed.has(file)) : scopeFiles;
+      }
+      const candidates = files && await filterFiles(files, filter);
+      const { result } = await runSearch(argv, { archives: options.archives, files: candidates, filter, context: options.context });
+      cacheSearchResult(key, result, {
+        scope: searchPath,
+        reusable: !!options.reuseCached && watched && getChangeGeneration() === generation,
+      });
+      index = lookup.usage;
+    }
+  }
+
+  const page = getResultPage(key, offset, options.pageSize);
+  page.index = index;
+  page.cached = cached || undefined;
+  await attachContext(page.files.flatMap(group => group.matches), options.contextLines || 0);
+  return page;
+}
+
+// Helper function to keep the files a filter accepts, in their original order
+async function filterFiles(files: string[], filter: FileFilter): Promise<string[]> {
+  const accepted = await Promise.all(files.map(file => filter.accepts(file)));
+  return files.filter((_, index) => accepted[index]);
+}
+
+// Start of a UGREP_RECORD_FORMAT line up to the end of its file name
+const RECORD_FILE_PREFIX = /^\{"file":("(?:[^"\\]|\\.)*")/;
+
+// Helper function to run a ugrep search and build the structured result.
+// With `files`, only those files are searched (in batches) instead of the search path.
+// With `filter`, matches in files it rejects are dropped (ugrep cannot apply path globs itself).
+// Progress counts the matches and matching files streamed so far; ugrep is killed on cancellation.
+async function runSearch(
+  argv: string[],
+  options: { archives?: boolean; files?: string[]; filter?: FileFilter; context?: ToolContext } = {}
+): Promise<{ result: SearchResult; otherLines: string[] }> {
+  const batches: string[][] = [];
+  if (options.files) {
+    for (let i = 0; i < options.files.length; i += CANDIDATE_BATCH_SIZE) {
+      batches.push([...argv.slice(0, -1), ...options.files.slice(i, i + CANDIDATE_BATCH_SIZE)]);
+    }
+  } else {
+    batches.push(argv);
+  }
+
+  let stdout = '';
+  let truncated = false;
+  let matchCount = 0;
+  let fileCount = 0;
+  let lastFile = '';
+  let searched = 0;
+  const progress = options.context?.progress;
+  const onLine = (line: string) => {
+    const file = RECORD_FILE_PREFIX.exec(line)?.[1];
+    if (file === undefined) return;
+    matchCount++;
+    // ugrep reports the matches of a file together
+    if (file !== lastFile) {
+      fileCount++;
+      lastFile = file;
+    }
+    const scanned = options.files ? `, ${searched} of ${options.files.length} candidate file(s) searched` : '';
+    progress?.report(matchCount, undefined, `${matchCount} match(es) in ${fileCount} file(s) so far${scanned}`);
+  };
+  for (const batch of batches) {
+    const maxBytes = DEFAULT_UGREP_MAX_BYTES - Buffer.byteLength(stdout);
+    const run = await runUgrep(batch, { maxBytes, signal: options.context?.signal, onLine: progress && onLine });
+    searched += batch.length - (argv.length - 1);
+    stdout += run.stdout;
+    if (run.truncated) {
+      truncated = true;
+      break;
+    }
+  }
+
+  const { matches, otherLines } = parseUgrepOutput(stdout, { archives: options.archives });
+  let kept = matches;
+  if (options.filter) {
+    // Archive members are judged by the archive they live in
+    const files = await filterFiles([...new Set(matches.map(match => match.file))], options.filter);
+    const accepted = new Set(files);
+    kept = matches.filter(match => accepted.has(match.file));
+  }
+  const result = groupMatches(kept);
+  result.truncated = truncated;
+  return { result, otherLines };
+}
+
+// Helper function to derive the index query for a basic search; filters that ugrep applies
+// while walking directories cannot be reproduced on a candidate list, so they disable the index
+function basicIndexQuery(args: { pattern: string; fileTypes?: string; excludeTypes?: string; recursiveDepth?: number }): TrigramQuery {
+  if (args.fileTypes || args.excludeTypes || args.recursiveDepth) {
+    return { type: 'all' };
+  }
+  return regexTrigramQuery(args.pattern);
+}
+
+export const checkUgrepInstallationTool = defineTool({
+  name: "check_ugrep_installation",
+  description: "Check if ugrep is installed and get installation instructions",
+  schema: EmptySchema,
+  handler: async (args) => {
+    const isAvailable = await checkUgrepAvailability();
+    return {
+      content: [
+        {
+          type: "text",
+          text: isAvailable 
+            ? "✅ ugrep is installed and available!"
+            : `❌ ugrep is not installed. Install it using:
+
+**Ubuntu/Debian:**
+\`\`\`bash
+sudo apt-get install ugrep
+\`\`\`
+
+**macOS (Homebrew):**
+\`\`\`bash
+brew install ugrep
+\`\`\`
+
+**Windows (Chocolatey):**
+\`\`\`bash
+choco install ugrep
+\`\`\`
+
+**From source:**
+Visit https://github.com/Genivia/ugrep for compilation instructions.`,
+        },
+      ],
+    };
+  },
+});
+
+export const basicSearchTool = defineTool({
+  name: "basic_search",
+  description: "Perform a basic text search using ugrep with optional filters and formatting",
+  schema: BasicSearchSchema,
+  handler: async (args, context) => {
+    try {
+      assertScopeFilters(args.scope, args);
+      const argv = buildUgrepArgs(args, "basic");
+      const result = await runPagedSearch("basic_search", argv, {
+        contextLines: args.contextLines,
+        pageSize: args.pageSize,
+        cursor: args.cursor,
+        indexQuery: basicIndexQuery(args),
+        filter: args,
+        scope: args.scope,
+        // The watcher does not see the git index, so scoped results are never reused
+        reuseCached: args.scope === 'all',
+        context,
+      });
+      
+      return buildSearchResponse(
+        `🔍 **Basic Search Results**\n\nPattern: \`${args.pattern || ''}\`\nPath: \`${args.path || '.'}\`${args.scope !== 'all' ? `\nScope: \`${args.scope}\`` : ''}`,
+        result
+      );
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error performing search: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ],
+        isError: true
+      };
+    }
+  },
+});
+
+export const booleanSearchTool = defineTool({
+  name: "boolean_search",
+  description: "Perform Google-like Boolean search with AND, OR, NOT operators",
+  schema: BooleanSearchSchema,
+  handler: async (args, context) => {
+    try {
+      const argv = buildUgrepArgs(args, "boolean");
+      const result = await runPagedSearch("boolean_search", argv, {
+        pageSize: args.pageSize,
+        cursor: args.cursor,
+        indexQuery: args.fileTypes ? { type: 'all' } : booleanTrigramQuery(args.query),
+        filter: args,
+        reuseCached: true,
+        context,
+      });
+      
+      return buildSearchResponse(
+        `🔍 **Boolean Search Results**\n\nQuery: \`${args.query || ''}\`\nPath: \`${args.path || '.'}\``,
+        result
+      );
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error performing boolean search: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ],
+        isError: true
+      };
+    }
+  },
+});
+
+export const fuzzySearchTool = defineTool({
+  name: "fuzzy_search",
+  description: "Perform fuzzy search that finds approximate matches allowing character errors",
+  schema: FuzzySearchSchema,
+  handler: async (args, context) => {
+    try {
+      const argv = buildUgrepArgs(args, "fuzzy");
+      const result = await runPagedSearch("fuzzy_search", argv, { pageSize: args.pageSize, cursor: args.cursor, filter: args, context });
+      
+      return buildSearchResponse(
+        `🔍 **Fuzzy Search Results**\n\nPattern: \`${args.pattern || ''}\`\nMax Errors: ${args.maxErrors || 2}\nPath: \`${args.path || '.'}\``,
+        result
+      );
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error performing fuzzy search: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ],
+        isError: true
+      };
+    }
+  },
+});
+
+export const archiveSearchTool = defineTool({
+  name: "archive_search",
+  description: "Search inside archives and compressed files (zip, tar, gz, 7z, etc.)",
+  schema: ArchiveSearchSchema,
+  handler: async (args, context) => {
+    try {
+      const argv = buildUgrepArgs(args, "archive");
+      const result = await runPagedSearch("archive_search", argv, {
+        archives: true,
+        pageSize: args.pageSize,
+        cursor: args.cursor,
+        filter: args,
+        context,
+      });
+      
+      return buildSearchResponse(
+        `🔍 **Archive Search Results**\n\nPattern: \`${args.pattern || ''}\`\nPath: \`${args.path || '.'}\``,
+        result,
+        'No matches found in archives.'
+      );
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error searching archives: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ],
+        isError: true
+      };
+    }
+  },
+});
+
+export const interactiveSearchTool = defineTool({
+  name: "interactive_search",
+  description: "Launch interactive TUI search mode (note: this starts an interactive session)",
+  schema: InteractiveSearchSchema,
+  handler: async (args) => {
+    const filterArgs = buildIgnoreArgs(args, { pathGlobs: true }).map(arg => ` ${quoteShellArg(arg)}`).join('');
+    return {
+      content: [
+        {
+          type: "text",
+          text: `🔍 **Interactive Search Mode**\n\nTo start interactive search, run this command in your terminal:\n\n\`\`\`bash\nugrep -Q${filterArgs}${args?.initialPattern ? ` -e ${quoteShellArg(args.initialPattern)}` : ''}${args?.path ? ` -- ${quoteShellArg(args.path)}` : ''}\n\`\`\`\n\nThis will open ugrep's TUI interface where you can:\n- Type patterns and see real-time results\n- Use arrow keys to navigate\n- Press F1 for help\n- Press Ctrl+C to exit\n\n*Note: Interactive mode requires a terminal and cannot be run directly through this MCP server.*`,
+        },
+      ],
+    };
+  },
+});
+
+export const codeStructureSearchTool = defineTool({
+  name: "code_structure_search",
+  description: "Search for code declarations (functions, classes, methods, imports, variables) by parsing the source",
+  schema: CodeStructureSearchSchema,
+  handler: async (args) => {
+    try {
+      let name: RegExp | undefined;
+      if (args.name) {
+        try {
+          name = new RegExp(args.name);
+        } catch (error) {
+          throw new McpError(ErrorCode.InvalidParams, `Invalid name pattern: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      const index = await findDeclarations(args.path, args.language, {
+        kind: args.structureType,
+        name,
+        exported: args.exported,
+        async: args.async,
+      }, args.maxResults, createFileFilter(args));
+      
+      // Format the result
+      const structureTypeCapitalized = args.structureType.charAt(0).toUpperCase() + args.structureType.slice(1);
+      const nameFilter = args.name ? ` named "${args.name}"` : '';
+      const filters = [
+        args.exported !== undefined ? (args.exported ? 'exported' : 'not exported') : '',
+        args.async !== undefined ? (args.async ? 'async' : 'not async') : '',
+      ].filter(Boolean);
+
+      let text = `🔍 **${structureTypeCapitalized} Search Results**\n\nSearching for ${args.structureType}s${nameFilter} in ${args.language} files\nPath: \`${args.path || '.'}\`\n`;
+      if (filters.length > 0) {
+        text += `Filters: ${filters.join(', ')}\n`;
+      }
+      text += `\n${formatDeclarations(index)}`;
+
+      return {
+        content: [
+          { type: "text", text },
+          { type: "text", text: JSON.stringify(index, null, 2) },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error searching for code structures: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ],
+        isError: true
+      };
+    }
+  },
+});
+
+export const searchHistoryTool = defineTool({
+  name: "search_history",
+  description: "Search a pattern across the commits of a git revision range with git grep, e.g. to find when an identifier appeared or disappeared",
+  schema: SearchHistorySchema,
+  handler: async (args) => {
+    try {
+      const history = await searchHistory(args.path, {
+        pattern: args.pattern,
+        range: args.range,
+        caseSensitive: args.caseSensitive,
+        maxCommits: args.maxCommits,
+        maxMatchesPerCommit: args.maxResults,
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `🕰️ **History Search Results**\n\nPattern: \`${args.pattern}\`\nPath: \`${args.path}\`\nRange: \`${args.range}\`\n\n${formatHistory(history)}`
+          },
+          {
+            type: "text",
+            text: JSON.stringify(history, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error searching history: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ],
+        isError: true
+      };
+    }
+  },
+});
+
+export const listFileTypesTool = defineTool({
+  name: "list_file_types",
+  description: "List all supported file types that can be used with -t option",
+  schema: EmptySchema,
+  handler: async (args) => {
+    try {
+      const { stdout } = await runUgrep(["-tlist"]);
+      
+      // Format the output directly with code block for better readability
+      return {
+        content: [
+          {
+            type: "text",
+            text: `📋 **Supported File Types**\n\nBelow is the list of file types supported by ugrep. Use these with the \`fileTypes\` parameter to filter your searches.\n\n\`\`\`\n${stdout}\`\`\`\n\n**Example Usage**:\n\`\`\`javascript\n// Search for "function" in only JavaScript files\nbasic_search({\n  pattern: "function",\n  fileTypes: "js"\n})\n\`\`\``
+          }
+        ]
+      };
+    } catch (error) {
+      // Return a friendly error message
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error listing file types: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ],
+        isError: true
+      };
+    }
+  },
+});
+
+export const getSearchStatsTool = defineTool({
+  name: "get_search_stats",
+  description: "Get detailed statistics about a search operation",
+  schema: SearchStatsSchema,
+  handler: async (args, context) => {
+    try {
+      assertScopeFilters(args.scope, args);
+      const argv = ["--stats", ...buildUgrepArgs(args, "basic")];
+      const files = await resolveScopeFiles(args.path, args.scope);
+      const { result, otherLines } = await runSearch(argv, { files, filter: createFileFilter(args), context });
+      
+      // The --stats report is everything that is not a match record
+      const statsText = otherLines.length > 0 ? otherLines.join('\n') : 'No statistics available.';
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: `📊 **Search Statistics**\n\nPattern: \`${args.pattern || ''}\`\nPath: \`${args.path || '.'}\`\n\nMatches: ${result.totalMatches}\nFiles with matches: ${result.fileCount}\n\n${statsText}`,
+          },
+          {
+            type: "text",
+            text: JSON.stringify({
+              totalMatches: result.totalMatches,
+              fileCount: result.fileCount,
+              files: result.files.map(group => ({ file: group.file, matchCount: group.matchCount })),
+              stats: otherLines,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error retrieving search statistics: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ],
+        isError: true
+      };
+    }
+  },
+});
+
+export const searchTools = [
+  checkUgrepInstallationTool,
+  basicSearchTool,
+  booleanSearchTool,
+  fuzzySearchTool,
+  archiveSearchTool,
+  interactiveSearchTool,
+  codeStructureSearchTool,
+  searchHistoryTool,
+  listFileTypesTool,
+  getSearchStatsTool,
+];
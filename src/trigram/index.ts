@@ -0,0 +1,364 @@
+import path from "path";
+import fs from "fs/promises";
+import { hashContent } from "../journal.js";
+import { findContainingRoot } from "../sandbox.js";
+import { visitFiles } from "../watcher.js";
+import { TrigramQuery } from "./query.js";
+
+export type { TrigramQuery } from "./query.js";
+export { booleanTrigramQuery, regexTrigramQuery } from "./query.js";
+
+const INDEX_VERSION = 1;
+
+// Larger files are not indexed and are always handed to ugrep
+const MAX_INDEXED_BYTES = 4 * 1024 * 1024;
+// Bytes inspected for NUL characters when deciding whether a file is binary
+const BINARY_SNIFF_BYTES = 8000;
+
+// One file as recorded in the index
+interface IndexedFile {
+  // Path relative to the root, with forward slashes
+  path: string;
+  mtimeMs: number;
+  size: number;
+  hash: string;
+  // Trigrams of the lowercased content, concatenated; null for binary or oversized files
+  trigrams: string | null;
+}
+
+// Index file layout on disk
+interface StoredIndex {
+  version: number;
+  root: string;
+  updatedAt: string;
+  files: IndexedFile[];
+}
+
+// Index loaded into memory with its posting lists
+interface LoadedIndex {
+  root: string;
+  updatedAt: string;
+  files: IndexedFile[];
+  byPath: Map<string, number>;
+  // Value of the root's change counter when the index was read from disk or its update started
+  changeCount: number;
+  postings: Map<string, number[]>;
+  // Files without trigrams, which every search has to include
+  unindexed: number[];
+}
+
+export interface IndexUpdateStats {
+  root: string;
+  indexFile: string;
+  files: number;
+  added: number;
+  changed: number;
+  removed: number;
+  unchanged: number;
+  // Binary or oversized files that are always searched
+  unindexed: number;
+  durationMs: number;
+}
+
+// How the index took part in a search
+export interface IndexUsage {
+  // Candidate files were narrowed down with the index
+  used: boolean;
+  // The index no longer matched the files on disk, so a full scan was used
+  stale: boolean;
+  reason?: string;
+  candidateFiles?: number;
+  filesInScope?: number;
+}
+
+export interface IndexLookup {
+  // Undefined when the root has no index
+  usage?: IndexUsage;
+  // Files to search instead of the search path, set when the index was used
+  candidates?: string[];
+}
+
+// Quiet period after the last change before an index is refreshed
+const REFRESH_DELAY_MS = 1000;
+
+const loadedIndexes = new Map<string, LoadedIndex>();
+const runningUpdates = new Map<string, Promise<IndexUpdateStats>>();
+const refreshTimers = new Map<string, NodeJS.Timeout>();
+// Changes reported below each root (by the watcher or the server's own writes); an index built
+// before the latest change is stale
+const changeCounts = new Map<string, number>();
+
+// Helper function to locate the index file of a workspace root
+export function getIndexFile(root: string): string {
+  if (process.env.CODESEEKER_INDEX_DIR) {
+    return path.join(path.resolve(process.env.CODESEEKER_INDEX_DIR), `${hashContent(root).slice(0, 16)}.json`);
+  }
+  return path.join(root, '.codeseeker', 'index', 'trigrams.json');
+}
+
+// Helper function to express a path relative to an index root
+function indexPath(root: string, filePath: string): string {
+  return path.relative(root, filePath).split(path.sep).join('/');
+}
+
+// Helper function to compute the trigrams of a file, or null when it should not be indexed
+function contentTrigrams(content: Buffer): string | null {
+  if (content.length > MAX_INDEXED_BYTES || content.subarray(0, BINARY_SNIFF_BYTES).includes(0)) {
+    return null;
+  }
+
+  const trigrams = new Set<string>();
+  for (const line of content.toString('utf-8').toLowerCase().split(/\r?\n/)) {
+    for (let i = 0; i + 3 <= line.length; i++) {
+      trigrams.add(line.slice(i, i + 3));
+    }
+  }
+  return [...trigrams].join('');
+}
+
+// Helper function to build the posting lists for a set of indexed files
+function buildLoadedIndex(root: string, updatedAt: string, files: IndexedFile[], changeCount: number): LoadedIndex {
+  const index: LoadedIndex = { root, updatedAt, files, byPath: new Map(), changeCount, postings: new Map(), unindexed: [] };
+
+  files.forEach((file, id) => {
+    index.byPath.set(file.path, id);
+    if (file.trigrams === null) {
+      index.unindexed.push(id);
+      return;
+    }
+    for (let i = 0; i < file.trigrams.length; i += 3) {
+      const trigram = file.trigrams.slice(i, i + 3);
+      const posting = index.postings.get(trigram);
+      if (posting) posting.push(id);
+      else index.postings.set(trigram, [id]);
+    }
+  });
+
+  return index;
+}
+
+// Load the index of a root from memory or disk; undefined when none was built
+async function loadIndex(root: string): Promise<LoadedIndex | undefined> {
+  const cached = loadedIndexes.get(root);
+  if (cached) return cached;
+
+  let stored: StoredIndex;
+  try {
+    stored = JSON.parse(await fs.readFile(getIndexFile(root), 'utf-8'));
+  } catch {
+    return undefined;
+  }
+  // Indexes written by another version or for another root are rebuilt rather than trusted
+  if (stored.version !== INDEX_VERSION || stored.root !== root || !Array.isArray(stored.files)) {
+    return undefined;
+  }
+
+  const index = buildLoadedIndex(root, stored.updatedAt, stored.files, changeCounts.get(root) ?? 0);
+  loadedIndexes.set(root, index);
+  return index;
+}
+
+// Helper function to bring the index of a root up to date, reusing entries whose mtime, size or hash is unchanged
+async function runIndexUpdate(root: string, rebuild: boolean): Promise<IndexUpdateStats> {
+  const started = Date.now();
+  const changeCount = changeCounts.get(root) ?? 0;
+  const previous = rebuild ? undefined : await loadIndex(root);
+  const stats: IndexUpdateStats = {
+    root,
+    indexFile: getIndexFile(root),
+    files: 0,
+    added: 0,
+    changed: 0,
+    removed: 0,
+    unchanged: 0,
+    unindexed: 0,
+    durationMs: 0,
+  };
+
+  const files: IndexedFile[] = [];
+  const indexDir = path.dirname(stats.indexFile);
+  await visitFiles(root, async (filePath, fileStats) => {
+    // The index never indexes itself when it is stored inside the root
+    if (filePath.startsWith(indexDir + path.sep)) return true;
+
+    const relative = indexPath(root, filePath);
+    const id = previous?.byPath.get(relative);
+    const old = id !== undefined ? previous!.files[id] : undefined;
+
+    if (old && old.mtimeMs === fileStats.mtimeMs && old.size === fileStats.size) {
+      files.push(old);
+      stats.unchanged++;
+      return true;
+    }
+
+    let content: Buffer;
+    try {
+      content = await fs.readFile(filePath);
+    } catch {
+      return true;
+    }
+    const hash = hashContent(content);
+    if (old && old.hash === hash) {
+      // Touched but not modified
+      files.push({ ...old, mtimeMs: fileStats.mtimeMs, size: fileStats.size });
+      stats.unchanged++;
+      return true;
+    }
+
+    files.push({ path: relative, mtimeMs: fileStats.mtimeMs, size: fileStats.size, hash, trigrams: contentTrigrams(content) });
+    if (old) stats.changed++;
+    else stats.added++;
+    return true;
+  });
+
+  files.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  stats.files = files.length;
+  stats.unindexed = files.filter(file => file.trigrams === null).length;
+  stats.removed = previous ? previous.files.length - stats.unchanged - stats.changed : 0;
+
+  const stored: StoredIndex = { version: INDEX_VERSION, root, updatedAt: new Date().toISOString(), files };
+  await fs.mkdir(indexDir, { recursive: true });
+  // Write to a temporary file first so a crash never leaves a half-written index behind
+  const temporary = `${stats.indexFile}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(stored), 'utf-8');
+  await fs.rename(temporary, stats.indexFile);
+
+  loadedIndexes.set(root, buildLoadedIndex(root, stored.updatedAt, files, changeCount));
+  stats.durationMs = Date.now() - started;
+  return stats;
+}
+
+// Build or incrementally update the index of a workspace root; concurrent calls share one update
+export function updateIndex(root: string, options: { rebuild?: boolean } = {}): Promise<IndexUpdateStats> {
+  const running = runningUpdates.get(root);
+  if (running) return running;
+
+  const update = runIndexUpdate(root, !!options.rebuild).finally(() => runningUpdates.delete(root));
+  runningUpdates.set(root, update);
+  return update;
+}
+
+// Helper function to refresh an index without making the current search wait for it
+function refreshInBackground(root: string): void {
+  updateIndex(root).catch(error => {
+    console.error(`Failed to refresh the search index for ${root}:`, error instanceof Error ? error.message : error);
+  });
+}
+
+// Refresh the indexes that cover changed files once the changes settle down
+export function scheduleIndexRefresh(paths: string[]): void {
+  for (const root of loadedIndexes.keys()) {
+    // Writes to the index itself never trigger a refresh
+    const indexDir = path.dirname(getIndexFile(root));
+    const affected = paths.some(filePath =>
+      (filePath === root || filePath.startsWith(root + path.sep)) && !filePath.startsWith(indexDir + path.sep)
+    );
+    if (!affected) continue;
+
+    changeCounts.set(root, (changeCounts.get(root) ?? 0) + 1);
+    clearTimeout(refreshTimers.get(root));
+    const timer = setTimeout(() => {
+      refreshTimers.delete(root);
+      refreshInBackground(root);
+    }, REFRESH_DELAY_MS);
+    timer.unref();
+    refreshTimers.set(root, timer);
+  }
+}
+
+// Helper function to check that the files below a path are exactly the ones recorded in the index
+async function isIndexFresh(index: LoadedIndex, searchPath: string, isFile: boolean): Promise<boolean> {
+  if (index.changeCount !== (changeCounts.get(index.root) ?? 0)) return false;
+
+  const scope = indexPath(index.root, searchPath);
+  const indexDir = path.dirname(getIndexFile(index.root));
+  const inScope = (relative: string) => scope === '' || relative === scope || relative.startsWith(`${scope}/`);
+
+  let seen = 0;
+  const check = (filePath: string, stats: { mtimeMs: number; size: number }) => {
+    if (filePath.startsWith(indexDir + path.sep)) return true;
+    const id = index.byPath.get(indexPath(index.root, filePath));
+    const file = id !== undefined ? index.files[id] : undefined;
+    seen++;
+    return !!file && file.mtimeMs === stats.mtimeMs && file.size === stats.size;
+  };
+
+  const complete = isFile
+    ? check(searchPath, await fs.stat(searchPath))
+    : await visitFiles(searchPath, check);
+  // Files deleted since the update are in the index but no longer on disk
+  return complete && seen === index.files.filter(file => inScope(file.path)).length;
+}
+
+// Helper function to evaluate a trigram query to file ids, or null when every file qualifies
+function evaluateQuery(index: LoadedIndex, query: TrigramQuery): Set<number> | null {
+  switch (query.type) {
+    case 'all':
+      return null;
+
+    case 'trigrams': {
+      const postings = query.trigrams.map(trigram => index.postings.get(trigram) ?? []);
+      postings.sort((a, b) => a.length - b.length);
+      let result = new Set(postings[0]);
+      for (const posting of postings.slice(1)) {
+        if (result.size === 0) break;
+        const next = new Set(posting);
+        result = new Set([...result].filter(id => next.has(id)));
+      }
+      return result;
+    }
+
+    case 'and': {
+      const parts = query.queries
+        .map(part => evaluateQuery(index, part))
+        .filter((ids): ids is Set<number> => ids !== null);
+      if (parts.length === 0) return null;
+      return parts.slice(1).reduce((result, ids) => new Set([...result].filter(id => ids.has(id))), parts[0]);
+    }
+
+    case 'or': {
+      const result = new Set<number>();
+      for (const part of query.queries) {
+        const ids = evaluateQuery(index, part);
+        if (ids === null) return null;
+        ids.forEach(id => result.add(id));
+      }
+      return result;
+    }
+  }
+}
+
+// Narrow a search to the files that can contain matches, when the root of the path has a fresh index
+export async function findIndexedCandidates(searchPath: string, query: TrigramQuery): Promise<IndexLookup> {
+  const root = findContainingRoot(searchPath);
+  const index = root ? await loadIndex(root) : undefined;
+  if (!root || !index) {
+    return {};
+  }
+
+  if (query.type === 'all') {
+    return { usage: { used: false, stale: false, reason: 'the pattern has no literal text of 3 or more characters' } };
+  }
+
+  const isFile = (await fs.stat(searchPath)).isFile();
+  if (!(await isIndexFresh(index, searchPath, isFile))) {
+    refreshInBackground(root);
+    return { usage: { used: false, stale: true, reason: 'files changed since the index was updated; a refresh was started' } };
+  }
+
+  const scope = indexPath(root, searchPath);
+  const inScope = (id: number) => {
+    const relative = index.files[id].path;
+    return scope === '' || relative === scope || relative.startsWith(`${scope}/`);
+  };
+
+  const ids = evaluateQuery(index, query);
+  const matched = ids === null ? index.files.map((_, id) => id) : [...ids, ...index.unindexed];
+  const candidates = [...new Set(matched)].filter(inScope).sort((a, b) => a - b);
+  const filesInScope = index.files.filter((_, id) => inScope(id)).length;
+
+  return {
+    usage: { used: true, stale: false, candidateFiles: candidates.length, filesInScope },
+    candidates: candidates.map(id => path.join(root, ...index.files[id].path.split('/'))),
+  };
+}
@@ -0,0 +1,245 @@
+// Trigram requirements derived from a search pattern. Extraction is conservative: a file
+// that can match the pattern always satisfies the query, the reverse does not have to hold.
+export type TrigramQuery =
+  | { type: 'all' }
+  | { type: 'trigrams'; trigrams: string[] }
+  | { type: 'and'; queries: TrigramQuery[] }
+  | { type: 'or'; queries: TrigramQuery[] };
+
+const ALL: TrigramQuery = { type: 'all' };
+
+// Escaped characters that stand for themselves; any other escape (\d, \b, \<, \x41, ...) ends a literal
+const LITERAL_ESCAPES = new Set([...'\\.^$*+?()[]{}|/-"#&~!@%,:;=_ ']);
+
+// Helper function to list the distinct trigrams of a lowercased literal
+export function literalTrigrams(literal: string): string[] {
+  const trigrams = new Set<string>();
+  const text = literal.toLowerCase();
+  for (let i = 0; i + 3 <= text.length; i++) {
+    trigrams.add(text.slice(i, i + 3));
+  }
+  return [...trigrams];
+}
+
+// Helper function to combine the trigrams of several literals that must all occur
+function requireLiterals(literals: string[]): TrigramQuery {
+  const trigrams = [...new Set(literals.flatMap(literalTrigrams))];
+  return trigrams.length > 0 ? { type: 'trigrams', trigrams } : ALL;
+}
+
+// Helper function to find the index just past a bracket expression starting at `start`
+function skipCharacterClass(pattern: string, start: number): number {
+  let i = start + 1;
+  if (pattern[i] === '^') i++;
+  // A leading ] is a literal member of the class
+  if (pattern[i] === ']') i++;
+  while (i < pattern.length && pattern[i] !== ']') {
+    if (pattern[i] === '\\') i++;
+    else if (pattern[i] === '[' && pattern[i + 1] === ':') {
+      // POSIX classes such as [:alpha:]
+      const end = pattern.indexOf(':]', i + 2);
+      if (end >= 0) i = end + 1;
+    }
+    i++;
+  }
+  return i + 1;
+}
+
+// Helper function to find the index just past a group starting at `start`
+function skipGroup(pattern: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') i++;
+    else if (char === '[') i = skipCharacterClass(pattern, i) - 1;
+    else if (char === '(') depth++;
+    else if (char === ')' && --depth === 0) return i + 1;
+  }
+  return pattern.length;
+}
+
+// Helper function to split a pattern at alternations outside groups and classes
+function splitAlternatives(pattern: string): string[] {
+  const branches: string[] = [];
+  let start = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') i++;
+    else if (char === '[') i = skipCharacterClass(pattern, i) - 1;
+    else if (char === '(') i = skipGroup(pattern, i) - 1;
+    else if (char === '|') {
+      branches.push(pattern.slice(start, i));
+      start = i + 1;
+    }
+  }
+  branches.push(pattern.slice(start));
+  return branches;
+}
+
+// Helper function to collect the literal runs that every match of a branch must contain
+function branchLiterals(branch: string): string[] {
+  const literals: string[] = [];
+  let run = '';
+  const flush = () => {
+    if (run) literals.push(run);
+    run = '';
+  };
+
+  for (let i = 0; i < branch.length; i++) {
+    const char = branch[i];
+
+    if (char === '\\') {
+      const next = branch[i + 1] ?? '';
+      if (LITERAL_ESCAPES.has(next)) {
+        run += next;
+        i++;
+        continue;
+      }
+      flush();
+      i++;
+      // Skip the operands of escapes such as \x41, \u00e9, \p{L} and \12
+      if (next === 'x' || next === 'u' || next === 'p' || next === 'P' || next === 'N' || next === 'k') {
+        if (branch[i + 1] === '{' || branch[i + 1] === '<') {
+          const close = branch.indexOf(branch[i + 1] === '{' ? '}' : '>', i + 1);
+          i = close >= 0 ? close : branch.length;
+        } else {
+          i += next === 'x' ? 2 : next === 'u' ? 4 : 1;
+        }
+      } else if (next === 'c') {
+        i++;
+      } else if (/[0-9]/.test(next)) {
+        while (/[0-9]/.test(branch[i + 1] ?? '')) i++;
+      }
+      continue;
+    }
+
+    if (char === '[') {
+      flush();
+      i = skipCharacterClass(branch, i) - 1;
+    } else if (char === '(') {
+      flush();
+      i = skipGroup(branch, i) - 1;
+    } else if (char === '*' || char === '?') {
+      // The preceding character is optional
+      run = run.slice(0, -1);
+      flush();
+    } else if (char === '{' && /^\{\d*(,\d*)?\}/.test(branch.slice(i))) {
+      const quantifier = /^\{(\d*)(,\d*)?\}/.exec(branch.slice(i))!;
+      if (!quantifier[1] || Number(quantifier[1]) === 0) {
+        run = run.slice(0, -1);
+      }
+      flush();
+      i += quantifier[0].length - 1;
+    } else if (char === '+' || char === '.' || char === '^' || char === '$' || char === ')') {
+      flush();
+    } else {
+      run += char;
+    }
+  }
+  flush();
+  return literals;
+}
+
+// Derive the trigram query for a regular expression (ugrep's default pattern syntax)
+export function regexTrigramQuery(pattern: string): TrigramQuery {
+  // In free-spacing mode whitespace in the pattern is not literal
+  if (/\(\?[a-zA-Z]*x/.test(pattern)) {
+    return ALL;
+  }
+
+  const branches = splitAlternatives(pattern).map(branch => requireLiterals(branchLiterals(branch)));
+  if (branches.some(branch => branch.type === 'all')) {
+    return ALL;
+  }
+  return branches.length === 1 ? branches[0] : { type: 'or', queries: branches };
+}
+
+// Helper function to split a Boolean query into words, quoted terms and operators
+function tokenizeBooleanQuery(query: string): string[] {
+  const tokens: string[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')' || char === '|') {
+      tokens.push(char);
+      i++;
+    } else {
+      let token = '';
+      let quoted = false;
+      while (i < query.length && (quoted || !/[\s()|]/.test(query[i]))) {
+        if (query[i] === '\\' && i + 1 < query.length) {
+          token += query.slice(i, i + 2);
+          i += 2;
+          continue;
+        }
+        if (query[i] === '"') quoted = !quoted;
+        token += query[i];
+        i++;
+      }
+      tokens.push(token);
+    }
+  }
+  return tokens;
+}
+
+// Derive the trigram query for a ugrep Boolean query (`-%`): space or AND, | or OR, - or NOT, parentheses
+export function booleanTrigramQuery(query: string): TrigramQuery {
+  const tokens = tokenizeBooleanQuery(query);
+  let position = 0;
+
+  const parseOr = (): TrigramQuery => {
+    const queries = [parseAnd()];
+    while (tokens[position] === '|' || tokens[position] === 'OR') {
+      position++;
+      queries.push(parseAnd());
+    }
+    if (queries.some(item => item.type === 'all')) return ALL;
+    return queries.length === 1 ? queries[0] : { type: 'or', queries };
+  };
+
+  const parseAnd = (): TrigramQuery => {
+    const queries: TrigramQuery[] = [];
+    while (position < tokens.length && tokens[position] !== ')' && tokens[position] !== '|' && tokens[position] !== 'OR') {
+      if (tokens[position] === 'AND') {
+        position++;
+        continue;
+      }
+      queries.push(parseUnary());
+    }
+    const required = queries.filter(item => item.type !== 'all');
+    if (required.length === 0) return ALL;
+    return required.length === 1 ? required[0] : { type: 'and', queries: required };
+  };
+
+  const parseUnary = (): TrigramQuery => {
+    const token = tokens[position++];
+    if (token === undefined) {
+      return ALL;
+    }
+    if (token === 'NOT') {
+      // Negated terms never narrow the files to search
+      parseUnary();
+      return ALL;
+    }
+    if (token === '(') {
+      const inner = parseOr();
+      if (tokens[position] === ')') position++;
+      return inner;
+    }
+    if (token.startsWith('-') && token.length > 1) {
+      return ALL;
+    }
+    const term = token.length > 1 && token.startsWith('"') && token.endsWith('"') ? token.slice(1, -1) : token;
+    if (term.includes('"')) {
+      return ALL;
+    }
+    // Quoted terms are analysed as patterns too, which can only widen the candidate set
+    return regexTrigramQuery(term);
+  };
+
+  const result = parseOr();
+  // Anything left over means the query did not parse as expected
+  return position < tokens.length ? ALL : result;
+}
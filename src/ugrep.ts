@@ -0,0 +1,270 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { spawn } from "child_process";
+import { StringDecoder } from "string_decoder";
+import { getConfig } from "./config.js";
+import { buildIgnoreArgs, FileFilterOptions } from "./ignore.js";
+import { CancelledError } from "./progress.js";
+import { UGREP_RECORD_FORMAT } from "./results.js";
+
+// Default output cap for a single ugrep invocation; the timeout comes from the configuration
+export const DEFAULT_UGREP_MAX_BYTES = 16 * 1024 * 1024;
+
+export interface UgrepRunOptions {
+  timeoutMs?: number;
+  maxBytes?: number;
+  cwd?: string;
+  // Kills ugrep when the request is cancelled
+  signal?: AbortSignal;
+  // Called with every complete line of output, e.g. to report progress
+  onLine?: (line: string) => void;
+}
+
+export interface UgrepRunResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  // ugrep exits with 1 when nothing matched; that is a normal result
+  matched: boolean;
+  // Output hit the byte cap and ugrep was stopped early
+  truncated: boolean;
+}
+
+// Error raised when ugrep cannot be started, times out or reports a real failure
+export class UgrepError extends Error {
+  constructor(message: string, public readonly exitCode: number | null = null, public readonly stderr: string = '') {
+    super(message);
+    this.name = 'UgrepError';
+  }
+}
+
+// Run ugrep with an argv array (no shell), streaming stdout up to a byte cap
+export function runUgrep(args: string[], options: UgrepRunOptions = {}): Promise<UgrepRunResult> {
+  const timeoutMs = options.timeoutMs ?? getConfig().timeouts.ugrepMs;
+  const maxBytes = options.maxBytes ?? DEFAULT_UGREP_MAX_BYTES;
+
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+
+    const child = spawn('ugrep', args, {
+      cwd: options.cwd,
+      shell: false,
+      windowsHide: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    const chunks: Buffer[] = [];
+    let bytes = 0;
+    let stderr = '';
+    let truncated = false;
+    let timedOut = false;
+    let cancelled = false;
+    let settled = false;
+    let partialLine = '';
+    const decoder = new StringDecoder('utf8');
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill();
+    }, timeoutMs);
+
+    const onAbort = () => {
+      cancelled = true;
+      child.kill();
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      if (truncated) return;
+
+      if (options.onLine) {
+        const lines = (partialLine + decoder.write(chunk)).split('\n');
+        partialLine = lines.pop()!;
+        lines.forEach(options.onLine);
+      }
+
+      if (bytes + chunk.length > maxBytes) {
+        chunks.push(chunk.subarray(0, maxBytes - bytes));
+        bytes = maxBytes;
+        truncated = true;
+        child.kill();
+        return;
+      }
+
+      chunks.push(chunk);
+      bytes += chunk.length;
+    });
+
+    child.stderr.on('data', (chunk: Buffer) => {
+      // stderr only carries diagnostics, keep it bounded as well
+      if (stderr.length < 64 * 1024) {
+        stderr += chunk.toString('utf-8');
+      }
+    });
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      reject(error.code === 'ENOENT'
+        ? new UgrepError('ugrep is not installed or not in PATH')
+        : new UgrepError(`Failed to run ugrep: ${error.message}`));
+    });
+
+    child.on('close', (code) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+
+      if (cancelled) {
+        reject(new CancelledError());
+        return;
+      }
+      if (timedOut) {
+        reject(new UgrepError(`ugrep timed out after ${timeoutMs}ms`, code, stderr));
+        return;
+      }
+
+      let stdout = Buffer.concat(chunks).toString('utf-8');
+      if (truncated) {
+        // Drop the partial record at the end of the capped output
+        const lastNewline = stdout.lastIndexOf('\n');
+        stdout = lastNewline >= 0 ? stdout.slice(0, lastNewline + 1) : '';
+      } else if (code !== 0 && code !== 1) {
+        reject(new UgrepError(stderr.trim() || `ugrep exited with code ${code}`, code, stderr));
+        return;
+      }
+
+      resolve({
+        stdout,
+        stderr,
+        exitCode: code,
+        matched: truncated || code === 0,
+        truncated,
+      });
+    });
+  });
+}
+
+// Helper function to validate a comma-separated list of ugrep file types
+function parseFileTypes(value: string, field: string): string[] {
+  const types = value.split(',').map(type => type.trim()).filter(type => type.length > 0);
+  for (const type of types) {
+    if (!/^[A-Za-z0-9_+-]+$/.test(type)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid file type "${type}" in ${field}`);
+    }
+  }
+  return types;
+}
+
+// Helper function to validate a positive integer option
+function parsePositiveInteger(value: unknown, field: string, max?: number): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1 || (max !== undefined && number > max)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${field} must be an integer between 1 and ${max ?? 'infinity'}, got ${JSON.stringify(value)}`
+    );
+  }
+  return number;
+}
+
+// Helper function to build the file type filter options
+export function buildFileTypeArgs(args: { fileTypes?: string; excludeTypes?: string }): string[] {
+  const argv: string[] = [];
+  if (args.fileTypes) {
+    argv.push(`--file-type=${parseFileTypes(args.fileTypes, 'fileTypes').join(',')}`);
+  }
+  if (args.excludeTypes) {
+    argv.push(`--file-type=${parseFileTypes(args.excludeTypes, 'excludeTypes').map(type => `^${type}`).join(',')}`);
+  }
+  return argv;
+}
+
+// Search tool arguments read by buildUgrepArgs; each tool passes the fields of its own schema
+export interface UgrepSearchArgs extends FileFilterOptions {
+  pattern?: string;
+  query?: string;
+  initialPattern?: string;
+  path?: string;
+  caseSensitive?: boolean;
+  recursiveDepth?: number;
+  maxErrors?: number;
+  fileTypes?: string;
+  excludeTypes?: string;
+  maxResults?: number;
+}
+
+// Helper function to build the ugrep argv for a search
+export function buildUgrepArgs(args: UgrepSearchArgs, searchType: string): string[] {
+  // Always emit one JSON record per match for structured results
+  const argv = [`--format=${UGREP_RECORD_FORMAT}`];
+
+  switch (searchType) {
+    case "basic":
+      // Context lines are read from the files after the search, see attachContext
+      if (!args.caseSensitive) argv.push("-i");
+      if (args.recursiveDepth) {
+        argv.push(`--max-depth=${parsePositiveInteger(args.recursiveDepth, 'recursiveDepth')}`);
+      }
+      break;
+
+    case "boolean":
+      argv.push("-%"); // Enable Boolean search
+      break;
+
+    case "fuzzy":
+      argv.push(`-Z${parsePositiveInteger(args.maxErrors ?? 2, 'maxErrors', 9)}`); // Fuzzy search with error limit
+      break;
+
+    case "archive":
+      argv.push("-z"); // Search archives and compressed files
+      break;
+  }
+
+  // File type filtering
+  argv.push(...buildFileTypeArgs(args));
+
+  // Ignore files and include/exclude globs
+  argv.push(...buildIgnoreArgs(args));
+
+  // Max results limit (using ugrep's built-in limit)
+  argv.push(`--max-count=${parsePositiveInteger(args.maxResults || 100, 'maxResults')}`);
+
+  // Pattern/query is passed with -e so a leading dash is never read as an option
+  const pattern = args.pattern || args.query || args.initialPattern || "";
+  argv.push("-e", pattern);
+
+  // Path specification
+  argv.push("--", args.path || ".");
+
+  return argv;
+}
+
+// Helper function to quote an argument for display in a shell command line
+export function quoteShellArg(value: string): string {
+  if (/^[A-Za-z0-9_./:=@%+-]+$/.test(value)) {
+    return value;
+  }
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Set once ugrep was found. A missing ugrep is looked for again on the next check, so installing it
+// needs no restart, while tools/list (once per session in HTTP mode) stops spawning ugrep --version.
+let ugrepFound = false;
+
+// Helper function to check if ugrep is available
+export async function checkUgrepAvailability(): Promise<boolean> {
+  if (ugrepFound) return true;
+  try {
+    await runUgrep(["--version"], { timeoutMs: 5000 });
+    ugrepFound = true;
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
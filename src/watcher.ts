@@ -0,0 +1,257 @@
+import path from "path";
+import fs from "fs/promises";
+import { FSWatcher, watch } from "fs";
+import { IGNORE_FILES } from "./ignore.js";
+
+// How often the polling fallback re-scans a root
+const POLL_INTERVAL_MS = 2000;
+
+export interface FileStats {
+  mtimeMs: number;
+  size: number;
+}
+
+type ChangeListener = (paths: string[]) => void;
+
+// Watch state of one workspace root
+interface RootWatch {
+  root: string;
+  mode: 'native' | 'polling';
+  // Every file ugrep would search below the root, by absolute path
+  inventory: Map<string, FileStats>;
+  // The initial scan finished
+  ready: boolean;
+  // Inventory updates still in flight; the inventory is not trusted until they finish
+  pending: number;
+  watcher?: FSWatcher;
+  timer?: NodeJS.Timeout;
+  polling?: boolean;
+}
+
+const watches = new Map<string, RootWatch>();
+const listeners: ChangeListener[] = [];
+
+// Helper function to walk the files ugrep searches by default: hidden entries and symlinks are skipped.
+// The visitor returns false to stop the walk early.
+export async function walkFiles(
+  dir: string,
+  visit: (filePath: string, stats: FileStats) => boolean | Promise<boolean>
+): Promise<boolean> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return true;
+  }
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue;
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!(await walkFiles(entryPath, visit))) return false;
+    } else if (entry.isFile()) {
+      let stats;
+      try {
+        stats = await fs.stat(entryPath);
+      } catch {
+        continue;
+      }
+      if (!(await visit(entryPath, stats))) return false;
+    }
+  }
+  return true;
+}
+
+// Helper function to check whether a path lies inside (or is) a directory
+function isWithin(dir: string, target: string): boolean {
+  return target === dir || target.startsWith(dir.endsWith(path.sep) ? dir : dir + path.sep);
+}
+
+// Helper function to check for a hidden segment (a name starting with a dot) below a root
+function isHiddenPath(root: string, filePath: string): boolean {
+  return path.relative(root, filePath).split(path.sep).some(segment => segment.startsWith('.'));
+}
+
+// Helper function to find the watch covering a path, ignoring hidden paths that ugrep skips
+function watchFor(filePath: string): RootWatch | undefined {
+  const state = [...watches.values()].find(candidate => isWithin(candidate.root, filePath));
+  return state && !isHiddenPath(state.root, filePath) ? state : undefined;
+}
+
+// Register a callback for changed files (from the watcher or from the server's own writes)
+export function onFilesChanged(listener: ChangeListener): void {
+  listeners.push(listener);
+}
+
+// Helper function to re-read one path into the inventory: a file, a new directory or something deleted
+async function refreshInventoryPath(state: RootWatch, filePath: string): Promise<void> {
+  state.pending++;
+  try {
+    let stats;
+    try {
+      stats = await fs.lstat(filePath);
+    } catch {
+      stats = undefined;
+    }
+
+    for (const known of [...state.inventory.keys()]) {
+      if (isWithin(filePath, known)) state.inventory.delete(known);
+    }
+    if (stats?.isFile()) {
+      state.inventory.set(filePath, { mtimeMs: stats.mtimeMs, size: stats.size });
+    } else if (stats?.isDirectory()) {
+      await walkFiles(filePath, (file, fileStats) => {
+        state.inventory.set(file, { mtimeMs: fileStats.mtimeMs, size: fileStats.size });
+        return true;
+      });
+    }
+  } finally {
+    state.pending--;
+  }
+}
+
+// Report changed paths to every listener and update the inventory; also called after the server's own writes
+export function notifyFilesChanged(paths: string[]): void {
+  if (paths.length === 0) return;
+
+  for (const listener of listeners) {
+    try {
+      listener(paths);
+    } catch (error) {
+      console.error("File change listener failed:", error);
+    }
+  }
+
+  for (const filePath of paths) {
+    const state = watchFor(filePath);
+    if (state) {
+      refreshInventoryPath(state, filePath).catch(error => console.error("Failed to update file inventory:", error));
+    }
+  }
+}
+
+// Helper function to compare a fresh scan with the inventory and report the differences
+async function pollRoot(state: RootWatch): Promise<void> {
+  if (state.polling) return;
+  state.polling = true;
+  try {
+    const seen = new Set<string>();
+    const changed: string[] = [];
+    await walkFiles(state.root, (filePath, stats) => {
+      seen.add(filePath);
+      const known = state.inventory.get(filePath);
+      if (!known || known.mtimeMs !== stats.mtimeMs || known.size !== stats.size) {
+        state.inventory.set(filePath, { mtimeMs: stats.mtimeMs, size: stats.size });
+        changed.push(filePath);
+      }
+      return true;
+    });
+    for (const known of [...state.inventory.keys()]) {
+      if (!seen.has(known)) {
+        state.inventory.delete(known);
+        changed.push(known);
+      }
+    }
+    if (changed.length > 0) {
+      for (const listener of listeners) listener(changed);
+    }
+  } finally {
+    state.polling = false;
+  }
+}
+
+// Helper function to fall back to periodic scans when native recursive watching is unavailable
+function startPolling(state: RootWatch): void {
+  state.watcher?.close();
+  state.watcher = undefined;
+  state.mode = 'polling';
+  state.timer = setInterval(() => {
+    pollRoot(state).catch(error => console.error(`Failed to scan ${state.root}:`, error));
+  }, POLL_INTERVAL_MS);
+  // Watching never keeps the process alive on its own
+  state.timer.unref();
+}
+
+// Helper function to start watching one root and take the initial inventory
+async function watchRoot(root: string): Promise<void> {
+  const state: RootWatch = { root, mode: 'native', inventory: new Map(), ready: false, pending: 0 };
+  watches.set(root, state);
+
+  try {
+    state.watcher = watch(root, { recursive: true, persistent: false }, (_event, filename) => {
+      // Without a file name the change cannot be located, so everything below the root is re-read
+      const changed = filename ? path.join(root, filename.toString()) : root;
+      // An ignore file decides what is searched in its whole directory
+      if (IGNORE_FILES.includes(path.basename(changed)) && !isHiddenPath(root, path.dirname(changed))) {
+        notifyFilesChanged([path.dirname(changed)]);
+        return;
+      }
+      // Hidden files are not searched, and the index and journal live in .codeseeker
+      if (isHiddenPath(root, changed)) return;
+      notifyFilesChanged([changed]);
+    });
+    state.watcher.on('error', (error) => {
+      console.error(`Watching ${root} failed, falling back to polling:`, error.message);
+      // Changes may have been missed before the error, so drop everything derived from this root
+      notifyFilesChanged([root]);
+      startPolling(state);
+    });
+  } catch {
+    startPolling(state);
+  }
+
+  await walkFiles(root, (filePath, stats) => {
+    state.inventory.set(filePath, { mtimeMs: stats.mtimeMs, size: stats.size });
+    return true;
+  });
+  state.ready = true;
+}
+
+// Helper function to stop watching one root
+function unwatchRoot(state: RootWatch): void {
+  state.watcher?.close();
+  if (state.timer) clearInterval(state.timer);
+  watches.delete(state.root);
+}
+
+// Watch exactly the given roots, starting and stopping watches as needed
+export async function startWatching(roots: string[]): Promise<void> {
+  for (const state of [...watches.values()]) {
+    if (!roots.includes(state.root)) unwatchRoot(state);
+  }
+  await Promise.all(roots.filter(root => !watches.has(root)).map(watchRoot));
+}
+
+export function stopWatching(): void {
+  for (const state of [...watches.values()]) unwatchRoot(state);
+}
+
+// Helper function to check that a watch reports every change as it happens. Polling notices
+// changes only on the next scan, so caches are not trusted on its behalf.
+function isTracking(state: RootWatch | undefined): state is RootWatch {
+  return !!state && state.mode === 'native' && state.ready && state.pending === 0;
+}
+
+// Let change events that are already queued reach the listeners before a cache is consulted
+export function settleWatchEvents(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+// Whether changes below a path are currently tracked, so derived caches can be trusted
+export function isWatched(filePath: string): boolean {
+  return isTracking(watchFor(filePath));
+}
+
+// Visit the files below a directory from the inventory when it is up to date, or by walking the tree
+export async function visitFiles(
+  dir: string,
+  visit: (filePath: string, stats: FileStats) => boolean | Promise<boolean>
+): Promise<boolean> {
+  const state = watchFor(dir);
+  if (!isTracking(state)) {
+    return walkFiles(dir, visit);
+  }
+  for (const [filePath, stats] of [...state.inventory]) {
+    if (isWithin(dir, filePath) && !(await visit(filePath, stats))) return false;
+  }
+  return true;
+}
@@ -6,9 +6,11 @@
  */
 
 import { spawn } from 'child_process';
+import { createHash } from 'crypto';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
-import { existsSync } from 'fs';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -315,6 +317,652 @@ async function testCodeStructureSearch() {
   });
 }
 
+// Helper to send requests one after another after initialization and inspect all responses.
+// Each step receives the responses so far and returns the next request; it may change files first.
+function runServerSession(steps, { args = [], description, check }) {
+  return new Promise((resolve) => {
+    logInfo(`Testing ${description}...`);
+    
+    const server = spawn('node', [SERVER_PATH, ...args], {
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+    
+    let settled = false;
+    let output = '';
+    let buffer = '';
+    const responses = [];
+    
+    const finish = (result) => {
+      if (settled) return;
+      settled = true;
+      server.kill();
+      resolve(result);
+    };
+    
+    const sendNext = () => {
+      try {
+        if (responses.length === steps.length) {
+          finish(check(responses));
+          return;
+        }
+        const request = { ...steps[responses.length](responses), jsonrpc: "2.0", id: responses.length + 2 };
+        server.stdin.write(JSON.stringify(request) + '\n');
+      } catch (error) {
+        logError(`${description} failed: ${error.message}`);
+        finish(false);
+      }
+    };
+    
+    server.stdout.on('data', (data) => {
+      output += data.toString();
+      buffer += data.toString();
+      let newline;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 1);
+        try {
+          const response = JSON.parse(line);
+          if (response.id === responses.length + 2) {
+            responses.push(response);
+            sendNext();
+          }
+        } catch (e) {
+          // Ignore non-JSON lines
+        }
+      }
+    });
+    
+    server.on('close', () => {
+      if (!settled) {
+        logError(`No response received for ${description}`);
+        logError(`Output: ${output}`);
+        finish(false);
+      }
+    });
+    
+    server.on('error', (error) => {
+      logError(`Server error: ${error.message}`);
+      finish(false);
+    });
+    
+    setTimeout(() => {
+      const initRequest = {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: "2024-11-05",
+          capabilities: {},
+          clientInfo: { name: "test-client", version: "1.0.0" }
+        }
+      };
+      server.stdin.write(JSON.stringify(initRequest) + '\n');
+      
+      setTimeout(sendNext, 500);
+    }, 1000);
+    
+    // Timeout protection
+    setTimeout(() => {
+      if (!settled) {
+        logError(`${description} timeout`);
+        finish(false);
+      }
+    }, TIMEOUT * Math.max(1, steps.length / 2));
+  });
+}
+
+// Helper to send one request after initialization and inspect its response
+function runServerRequest(request, { check, ...options }) {
+  return runServerSession([() => request], { ...options, check: ([response]) => check(response) });
+}
+
+// Helper to create a scratch workspace from a map of relative paths to file contents
+function createWorkspace(files) {
+  const root = mkdtempSync(join(tmpdir(), 'codeseeker-test-'));
+  for (const [name, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(root, name)), { recursive: true });
+    writeFileSync(join(root, name), content);
+  }
+  return root;
+}
+
+// Helper to get the text of a tool result
+function resultText(response) {
+  return response.result && response.result.content ? response.result.content.map(item => item.text).join('\n') : '';
+}
+
+// Test that paths outside the workspace roots are rejected
+async function testPathOutsideRootsRejected() {
+  return runServerRequest(
+    {
+      id: 4,
+      method: "tools/call",
+      params: {
+        name: "basic_search",
+        arguments: { pattern: "root", path: "../../../../etc" }
+      }
+    },
+    {
+      args: ['--root', join(__dirname, 'src')],
+      description: 'workspace root sandbox',
+      check: (response) => {
+        if (response.error && response.error.message.includes('outside the allowed workspace roots')) {
+          logSuccess('Path outside workspace roots was rejected');
+          return true;
+        }
+        logError(`Expected a sandbox error, got: ${JSON.stringify(response)}`);
+        return false;
+      }
+    }
+  );
+}
+
+// Test that invalid tool arguments are rejected with the failing field names
+async function testInvalidArgumentsRejected() {
+  return runServerRequest(
+    {
+      id: 5,
+      method: "tools/call",
+      params: {
+        name: "basic_search",
+        arguments: { maxResults: "ten" }
+      }
+    },
+    {
+      description: 'argument validation',
+      check: (response) => {
+        const message = response.error ? response.error.message : '';
+        if (response.error && response.error.code === -32602 &&
+            message.includes('pattern') && message.includes('maxResults')) {
+          logSuccess('Invalid arguments were rejected with field names');
+          return true;
+        }
+        logError(`Expected an InvalidParams error, got: ${JSON.stringify(response)}`);
+        return false;
+      }
+    }
+  );
+}
+
+// Test that replacements with JavaScript-only regex syntax (lookbehind, backreferences) reach every
+// matching file, although ugrep cannot run those patterns itself
+async function testJsOnlyReplacePatterns() {
+  const root = createWorkspace({ 'a.txt': 'price: $5\ncost: 5\n', 'b.txt': 'the the cat\n', 'c.txt': 'nothing here\n' });
+  const replace = (pattern, replacement) => () => ({
+    method: "tools/call",
+    params: { name: "search_and_replace", arguments: { pattern, replacement, dryRun: false } }
+  });
+  
+  try {
+    return await runServerSession([
+      replace('(?<=\\$)5', '6'),
+      replace('\\b(\\w+) \\1\\b', '$1'),
+    ], {
+      args: ['--root', root],
+      description: 'JavaScript-only replacement patterns',
+      check: (responses) => {
+        if (responses.some(response => resultText(response).includes('ugrep is not installed'))) {
+          logWarning('ugrep not found, so JavaScript-only patterns could not be checked');
+          return true;
+        }
+        const contents = ['a.txt', 'b.txt', 'c.txt'].map(name => readFileSync(join(root, name), 'utf-8'));
+        if (contents[0] !== 'price: $6\ncost: 5\n' || contents[1] !== 'the cat\n' || contents[2] !== 'nothing here\n') {
+          logError(`Expected the lookbehind and backreference replacements to apply, got: ${JSON.stringify(contents)} ${responses.map(resultText).join('\n')}`);
+          return false;
+        }
+        logSuccess('Lookbehind and backreference patterns were replaced in every matching file');
+        return true;
+      }
+    });
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+}
+
+// Test that a live run is recorded as a changeset and undone byte for byte, and that undo
+// refuses to overwrite files changed after the run
+async function testChangesetUndo() {
+  const originals = {
+    'util.ts': 'export function oldName(): number {\r\n  return 1;\r\n}\r\n',
+    'main.ts': "import { oldName } from './util';\nexport const value = oldName();\n",
+  };
+  const root = createWorkspace(originals);
+  const read = (name) => readFileSync(join(root, name));
+  const rename = { method: "tools/call", params: { name: "code_refactor", arguments: { structureType: "function", oldPattern: "oldName", newPattern: "newName", language: "ts", dryRun: false } } };
+  const listChangesets = { method: "tools/call", params: { name: "list_changesets", arguments: {} } };
+  const latestId = (response) => JSON.parse(response.result.content[1].text)[0].id;
+  let renamed = false;
+  let restored = false;
+  
+  try {
+    return await runServerSession([
+      () => rename,
+      () => listChangesets,
+      (responses) => {
+        renamed = read('util.ts').toString().includes('newName') && read('main.ts').toString().includes('newName');
+        return { method: "tools/call", params: { name: "undo_changeset", arguments: { id: latestId(responses[1]) } } };
+      },
+      () => {
+        restored = Object.entries(originals).every(([name, content]) => read(name).equals(Buffer.from(content)));
+        return rename;
+      },
+      () => {
+        writeFileSync(join(root, 'main.ts'), 'edited after the changeset\n');
+        return listChangesets;
+      },
+      (responses) => ({ method: "tools/call", params: { name: "undo_changeset", arguments: { id: latestId(responses[4]), force: false } } }),
+    ], {
+      args: ['--root', root],
+      description: 'change journal and undo',
+      check: (responses) => {
+        const conflict = responses[5];
+        if (!renamed || !restored) {
+          logError(`Expected the rename to be applied and undone byte for byte: ${resultText(responses[0])} ${resultText(responses[2])}`);
+          return false;
+        }
+        if (!conflict.result || !conflict.result.isError || !resultText(conflict).includes('Refusing to undo') ||
+            read('main.ts').toString() !== 'edited after the changeset\n' || !read('util.ts').toString().includes('newName')) {
+          logError(`Expected undo to refuse and leave the files alone, got: ${JSON.stringify(conflict)}`);
+          return false;
+        }
+        logSuccess('Changeset was undone byte for byte, and undo refused to overwrite a changed file');
+        return true;
+      }
+    });
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+}
+
+// Test the conflict checks of the scope-aware rename, one fixture per conflict, and a clean rename
+async function testRenameConflicts() {
+  const root = createWorkspace({
+    'clean/util.ts': 'export function oldName() { return 1; }\n',
+    'clean/main.ts': "import { oldName } from './util';\nexport const value = oldName();\n",
+    'shadow/a.ts': 'export function oldFn() { return 1; }\nconst newFn = 2;\nexport const total = oldFn() + newFn;\n',
+    'capture/a.ts': 'export function outer() {\n  function oldFn() { return 1; }\n  return oldFn() + newFn();\n}\nexport function newFn() { return 2; }\n',
+    'member/a.ts': 'export class Greeter {\n  oldM() { return 1; }\n  newM() { return 2; }\n}\n',
+    'outside/util.ts': "export * from './generated';\nexport function oldFn() { return 1; }\n",
+    'outside/generated.ts': "import { oldFn } from './util';\nexport const value = oldFn();\n",
+  });
+  const preview = (path, structureType, oldPattern, newPattern, extra = {}) => () => ({
+    method: "tools/call",
+    params: { name: "code_refactor", arguments: { path, structureType, oldPattern, newPattern, language: "ts", dryRun: true, ...extra } }
+  });
+  const cases = [
+    { step: preview('clean', 'function', 'oldName', 'newName'), expected: null },
+    { step: preview('clean', 'function', 'oldName', '1bad'), expected: 'is not a valid identifier' },
+    { step: preview('shadow', 'function', 'oldFn', 'newFn'), expected: 'is already in scope here' },
+    { step: preview('capture', 'function', 'oldFn', 'newFn'), expected: 'would resolve to the renamed declaration instead' },
+    { step: preview('member', 'method', 'oldM', 'newM', { className: 'Greeter' }), expected: 'is already a member of this type' },
+    { step: preview('outside', 'function', 'oldFn', 'newFn', { exclude: ['generated.ts'] }), expected: 'outside the project path or in an ignored file' },
+  ];
+  
+  try {
+    return await runServerSession(cases.map(entry => entry.step), {
+      args: ['--root', root],
+      description: 'rename conflict checks',
+      check: (responses) => {
+        const failures = cases.filter((entry, index) => {
+          const text = resultText(responses[index]);
+          return entry.expected
+            ? !text.includes('**Conflicts**') || !text.includes(entry.expected)
+            : text.includes('**Conflicts**') || !text.includes('clean/main.ts') || !text.includes('+export const value = newName();');
+        });
+        if (failures.length > 0) {
+          for (const entry of failures) {
+            logError(`Rename expected ${entry.expected ? `conflict "${entry.expected}"` : 'no conflict'}, got: ${resultText(responses[cases.indexOf(entry)])}`);
+          }
+          return false;
+        }
+        logSuccess('Every rename conflict was reported and the clean rename was previewed');
+        return true;
+      }
+    });
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+}
+
+// Test that applying previewed matches refuses when a target changed after the preview, and writes nothing
+async function testStaleApplyRefused() {
+  const root = createWorkspace({ 'a.txt': 'foo one\n', 'b.txt': 'foo two\n' });
+  // Match IDs are <file>:<line>:<column>:<first 8 hex digits of the sha256 of the matched text>
+  const hash = createHash('sha256').update('foo').digest('hex').slice(0, 8);
+  const matchIds = [`a.txt:1:1:${hash}`, `b.txt:1:1:${hash}`];
+  const replace = (dryRun) => ({
+    method: "tools/call",
+    params: { name: "search_and_replace", arguments: { pattern: "foo", replacement: "bar", matchIds, dryRun } }
+  });
+  
+  try {
+    return await runServerSession([
+      () => replace(true),
+      () => {
+        writeFileSync(join(root, 'a.txt'), 'fob one\n');
+        return replace(false);
+      },
+    ], {
+      args: ['--root', root],
+      description: 'stale preview refusal',
+      check: ([preview, apply]) => {
+        if (!resultText(preview).includes(matchIds[0]) || !resultText(preview).includes(matchIds[1])) {
+          logError(`Expected the preview to list both matches, got: ${resultText(preview)}`);
+          return false;
+        }
+        const untouched = readFileSync(join(root, 'a.txt'), 'utf-8') === 'fob one\n' &&
+          readFileSync(join(root, 'b.txt'), 'utf-8') === 'foo two\n' &&
+          !existsSync(join(root, '.codeseeker', 'journal'));
+        if (!apply.result || !apply.result.isError || !resultText(apply).includes('No changes were made') || !untouched) {
+          logError(`Expected the apply to be refused with every file untouched, got: ${JSON.stringify(apply)}`);
+          return false;
+        }
+        logSuccess('Apply was refused after the target changed, and no file was written');
+        return true;
+      }
+    });
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+}
+
+// Test resources/read for a whole file, a line range, a path outside the roots and the size cap
+async function testResourceRead() {
+  const root = createWorkspace({
+    'workspace/docs/read!me.txt': 'line 1\nline 2\nline 3\nline 4\nline 5\n',
+    'workspace/big.txt': 'x'.repeat(300 * 1024),
+    'secret.txt': 'outside the roots\n',
+  });
+  const read = (uri) => () => ({ method: "resources/read", params: { uri } });
+  
+  try {
+    return await runServerSession([
+      read('codeseeker://file/docs/read%21me.txt'),
+      read('codeseeker://file/docs/read%21me.txt#L2-L4'),
+      read('codeseeker://file/../secret.txt'),
+      read('codeseeker://file/big.txt'),
+    ], {
+      args: ['--root', join(root, 'workspace')],
+      description: 'resources/read',
+      check: ([whole, range, outside, big]) => {
+        const text = (response) => response.result ? response.result.contents[0].text : undefined;
+        const rejected = (response, message) => response.error && response.error.code === -32602 && response.error.message.includes(message);
+        if (text(whole) !== 'line 1\nline 2\nline 3\nline 4\nline 5\n') {
+          logError(`Expected the whole file, got: ${JSON.stringify(whole)}`);
+          return false;
+        }
+        if (text(range) !== 'line 2\nline 3\nline 4') {
+          logError(`Expected lines 2 to 4, got: ${JSON.stringify(range)}`);
+          return false;
+        }
+        if (!rejected(outside, 'outside the allowed workspace roots')) {
+          logError(`Expected a sandbox error, got: ${JSON.stringify(outside)}`);
+          return false;
+        }
+        if (!rejected(big, '256 KiB limit')) {
+          logError(`Expected the 256 KiB cap to refuse the file, got: ${JSON.stringify(big).slice(0, 500)}`);
+          return false;
+        }
+        logSuccess('Resources were read whole and by line range, and the sandbox and size cap were enforced');
+        return true;
+      }
+    });
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+}
+
+// Test prompts/list and prompts/get: read-only mode hides the prompts that edit files, and bad
+// arguments are rejected as invalid parameters
+async function testPrompts() {
+  const getPrompt = (name, args) => () => ({ method: "prompts/get", params: { name, arguments: args } });
+  
+  return runServerSession([
+    () => ({ method: "prompts/list", params: {} }),
+    getPrompt('find-dead-code', { kind: 'function' }),
+    getPrompt('find-dead-code', { language: 'rust' }),
+    getPrompt('find-dead-code', { language: 'ts' }),
+  ], {
+    args: ['--read-only'],
+    description: 'prompts',
+    check: ([list, missing, invalid, valid]) => {
+      const names = list.result ? list.result.prompts.map(prompt => prompt.name).sort() : [];
+      if (names.join(',') !== 'audit-secrets,find-dead-code') {
+        logError(`Expected read-only mode to list only audit-secrets and find-dead-code, got: ${names.join(', ')}`);
+        return false;
+      }
+      const rejected = (response, message) => response.error && response.error.code === -32602 && response.error.message.includes(message);
+      if (!rejected(missing, 'Missing prompt argument') || !rejected(invalid, 'Invalid prompt argument language')) {
+        logError(`Expected InvalidParams errors, got: ${JSON.stringify(missing)} ${JSON.stringify(invalid)}`);
+        return false;
+      }
+      if (!valid.result || !valid.result.messages[0].content.text.includes('code_structure_search')) {
+        logError(`Expected the prompt to expand, got: ${JSON.stringify(valid)}`);
+        return false;
+      }
+      logSuccess('Prompts were filtered in read-only mode and bad arguments were rejected');
+      return true;
+    }
+  });
+}
+
+// Test that --read-only and --exclude-tools hide tools, and that defaults from codeseeker.config.json
+// and flags are published in tools/list (flags winning over the file)
+async function testConfiguredTools() {
+  const root = createWorkspace({
+    'codeseeker.config.json': JSON.stringify({ defaults: { maxResults: 7, pageSize: 50 } }),
+  });
+  const callTool = (name) => () => ({ method: "tools/call", params: { name, arguments: { pattern: "x", replacement: "y" } } });
+  
+  try {
+    return await runServerSession([
+      () => ({ method: "tools/list", params: {} }),
+      callTool('search_and_replace'),
+      callTool('list_file_types'),
+    ], {
+      args: ['--root', root, '--read-only', '--exclude-tools', 'list_file_types', '--page-size', '25'],
+      description: 'configured tool exposure and defaults',
+      check: ([list, writeTool, excludedTool]) => {
+        const tools = list.result ? list.result.tools : [];
+        const hidden = ['search_and_replace', 'bulk_replace', 'code_refactor', 'undo_changeset', 'prune_backups', 'build_index', 'list_file_types'];
+        const exposed = hidden.filter(name => tools.some(tool => tool.name === name));
+        if (exposed.length > 0) {
+          logError(`Expected these tools to be hidden: ${exposed.join(', ')}`);
+          return false;
+        }
+        const notFound = (response) => response.error && response.error.code === -32601;
+        if (!notFound(writeTool) || !notFound(excludedTool)) {
+          logError(`Expected hidden tools to be refused, got: ${JSON.stringify(writeTool)} ${JSON.stringify(excludedTool)}`);
+          return false;
+        }
+        const basicSearch = tools.find(tool => tool.name === 'basic_search');
+        if (!basicSearch) {
+          // Without ugrep only check_ugrep_installation is listed
+          logWarning('ugrep not found, so configured defaults could not be checked in tools/list');
+        } else if (basicSearch.inputSchema.properties.maxResults.default !== 7 || basicSearch.inputSchema.properties.pageSize.default !== 25) {
+          logError(`Expected maxResults 7 from the config file and pageSize 25 from the flag, got: ${JSON.stringify(basicSearch.inputSchema.properties)}`);
+          return false;
+        }
+        logSuccess(`Read-only and excluded tools were hidden and refused${basicSearch ? ', and configured defaults were published' : ''}`);
+        return true;
+      }
+    });
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+}
+
+// Test that a configuration naming an unknown tool stops the server at startup
+async function testUnknownToolInConfigRejected() {
+  const root = createWorkspace({
+    'codeseeker.config.json': JSON.stringify({ tools: { exclude: ['no_such_tool'] } }),
+  });
+  
+  try {
+    return await new Promise((resolve) => {
+      logInfo('Testing configuration with an unknown tool...');
+      
+      const server = spawn('node', [SERVER_PATH, '--root', root], {
+        stdio: ['pipe', 'pipe', 'pipe']
+      });
+      
+      let stderr = '';
+      server.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+      
+      const timer = setTimeout(() => {
+        logError('Server kept running with an unknown tool in its configuration');
+        server.kill();
+      }, TIMEOUT);
+      
+      server.on('close', (code) => {
+        clearTimeout(timer);
+        if (code !== 0 && stderr.includes('Unknown tool(s) in configuration: no_such_tool')) {
+          logSuccess('Server refused to start with an unknown tool in its configuration');
+          resolve(true);
+        } else {
+          logError(`Expected a startup error, got exit code ${code}: ${stderr}`);
+          resolve(false);
+        }
+      });
+    });
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+}
+
+// Helper to check whether a file with the given trigrams can pass a trigram query
+function satisfiesTrigramQuery(query, trigrams) {
+  switch (query.type) {
+    case 'all': return true;
+    case 'trigrams': return query.trigrams.every(trigram => trigrams.has(trigram));
+    case 'and': return query.queries.every(part => satisfiesTrigramQuery(part, trigrams));
+    case 'or': return query.queries.some(part => satisfiesTrigramQuery(part, trigrams));
+  }
+  throw new Error(`Unknown query type ${query.type}`);
+}
+
+// Helper to compute the trigrams of a text the way the index does (lowercased, per line)
+function textTrigrams(text) {
+  const trigrams = new Set();
+  for (const line of text.toLowerCase().split(/\r?\n/)) {
+    for (let i = 0; i + 3 <= line.length; i++) trigrams.add(line.slice(i, i + 3));
+  }
+  return trigrams;
+}
+
+// Test that a file edited in place after build_index is still searched when the server is not watching
+async function testIndexedFileEditedInPlace() {
+  const root = createWorkspace({ 'src/a.txt': 'alpha line\n', 'src/b.txt': 'beta line\n' });
+  const search = () => ({ method: "tools/call", params: { name: "basic_search", arguments: { pattern: "gamma" } } });
+  
+  try {
+    return await runServerSession([
+      () => ({ method: "tools/call", params: { name: "build_index", arguments: {} } }),
+      search,
+      () => {
+        // Rewrites the file without replacing it, so its directory's mtime stays the same
+        writeFileSync(join(root, 'src', 'a.txt'), 'alpha line\ngamma line\n');
+        return search();
+      },
+    ], {
+      args: ['--root', root],
+      description: 'index freshness after an in-place edit',
+      check: ([build, before, after]) => {
+        if (resultText(after).includes('ugrep is not installed')) {
+          logWarning('ugrep not found, so the search after the edit could not be checked');
+          return true;
+        }
+        if (!resultText(before).includes('⚡ Index: searched 0 of 2')) {
+          logError(`Expected the first search to use the index, got: ${resultText(before)}`);
+          return false;
+        }
+        if (!resultText(after).includes('a.txt') || resultText(after).includes('⚡ Index')) {
+          logError(`Expected the edited file to be searched without the stale index, got: ${resultText(after)}`);
+          return false;
+        }
+        logSuccess('A file edited in place was searched instead of being pruned by the stale index');
+        return true;
+      }
+    });
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+}
+
+// Test that the trigram prefilter never drops a file that matches, and still narrows plain patterns.
+// Each row lists texts that match the pattern (checked with a JavaScript RegExp where the syntax agrees)
+// and texts the query should rule out.
+async function testTrigramQueries() {
+  const { regexTrigramQuery, booleanTrigramQuery } = await import('./build/trigram/query.js');
+
+  const regexCases = [
+    { pattern: 'hello', matches: ['say hello', 'HELLO there'], rejects: ['help low'] },
+    { pattern: 'foo|bar', matches: ['a foo', 'a bar'], rejects: ['baz'] },
+    { pattern: 'colou?r', matches: ['color', 'colour'], rejects: ['cool'] },
+    { pattern: 'ab*cdef', matches: ['acdef', 'abbbcdef'], rejects: ['abcde'] },
+    { pattern: 'fo{0,2}bar', matches: ['fbar', 'foobar'], rejects: ['foo'] },
+    { pattern: 'get(Name|Id)\\(', matches: ['getName(', 'getId('], rejects: ['setName('] },
+    { pattern: '[Ff]oo[.]bar', matches: ['Foo.bar', 'foo.bar'], rejects: ['food'] },
+    { pattern: '\\d+px solid', matches: ['12px solid'], rejects: ['dashed'] },
+    { pattern: 'a\\.b\\.c', matches: ['a.b.c'], rejects: [] },
+    { pattern: '\\x41BCdef', matches: ['ABCdef'], rejects: ['xyz'] },
+    { pattern: 'x.*y', matches: ['x and y'], rejects: [] },
+    { pattern: '\\bword\\b', matches: ['a word here'], rejects: ['wood'] },
+    { pattern: '^import ', matches: ['import x'], rejects: ['export x'] },
+    { pattern: '(?x) a b c ', matches: ['abc'], rejects: [], js: false },
+    { pattern: '\\<main\\>', matches: ['int main()'], rejects: ['mane'], js: false }
+  ];
+
+  const booleanCases = [
+    { query: 'foo bar', matches: ['foo and bar'], rejects: ['foo only'] },
+    { query: 'foo AND bar', matches: ['bar then foo'], rejects: ['bar only'] },
+    { query: 'foo|bar', matches: ['just foo', 'just bar'], rejects: ['neither'] },
+    { query: 'foo OR bar', matches: ['just bar'], rejects: ['neither'] },
+    { query: 'foo -bar', matches: ['foo alone'], rejects: ['bar alone'] },
+    { query: 'NOT foo', matches: ['anything'], rejects: [] },
+    { query: '(alpha|beta) gamma', matches: ['alpha gamma', 'gamma beta'], rejects: ['alpha beta'] },
+    { query: '"hello world"', matches: ['say hello world'], rejects: ['hello there'] },
+    { query: '"a|b" xyz', matches: ['a|b xyz'], rejects: [] },
+    { query: 'ab', matches: ['ab'], rejects: [] }
+  ];
+
+  const failures = [];
+  const check = (label, query, { matches, rejects }) => {
+    for (const text of matches) {
+      if (!satisfiesTrigramQuery(query, textTrigrams(text))) {
+        failures.push(`${label} dropped matching text ${JSON.stringify(text)}: ${JSON.stringify(query)}`);
+      }
+    }
+    for (const text of rejects) {
+      if (satisfiesTrigramQuery(query, textTrigrams(text))) {
+        failures.push(`${label} did not rule out ${JSON.stringify(text)}: ${JSON.stringify(query)}`);
+      }
+    }
+  };
+
+  for (const row of regexCases) {
+    if (row.js !== false) {
+      const regex = new RegExp(row.pattern, 'i');
+      for (const text of row.matches) {
+        if (!regex.test(text)) failures.push(`Table error: ${row.pattern} does not match ${JSON.stringify(text)}`);
+      }
+    }
+    check(`regex ${row.pattern}`, regexTrigramQuery(row.pattern), row);
+  }
+  for (const row of booleanCases) {
+    check(`boolean ${row.query}`, booleanTrigramQuery(row.query), row);
+  }
+
+  if (failures.length > 0) {
+    failures.forEach(failure => logError(failure));
+    return false;
+  }
+  logSuccess(`Trigram queries kept every match of ${regexCases.length + booleanCases.length} patterns`);
+  return true;
+}
+
 // Main test runner
 async function runTests() {
   log(`${colors.bold}🧪 Running ugrep MCP Server Tests${colors.reset}\n`);
@@ -324,7 +972,19 @@ async function runTests() {
     { name: 'ugrep installation', fn: checkUgrepInstalled },
     { name: 'Server initialization', fn: testServerInitialization },
     { name: 'Tools list request', fn: testToolsList },
-    { name: 'Code structure search', fn: testCodeStructureSearch }
+    { name: 'Code structure search', fn: testCodeStructureSearch },
+    { name: 'Workspace root sandbox', fn: testPathOutsideRootsRejected },
+    { name: 'Argument validation', fn: testInvalidArgumentsRejected },
+    { name: 'Change journal and undo', fn: testChangesetUndo },
+    { name: 'Rename conflicts', fn: testRenameConflicts },
+    { name: 'Stale preview refusal', fn: testStaleApplyRefused },
+    { name: 'Resource reads', fn: testResourceRead },
+    { name: 'Prompts', fn: testPrompts },
+    { name: 'Configured tools', fn: testConfiguredTools },
+    { name: 'Unknown tool in configuration', fn: testUnknownToolInConfigRejected },
+    { name: 'Trigram query extraction', fn: testTrigramQueries },
+    { name: 'Index after an in-place edit', fn: testIndexedFileEditedInPlace },
+    { name: 'JavaScript-only replacement patterns', fn: testJsOnlyReplacePatterns }
   ];
   
   let passed = 0;